@@ -1,31 +1,40 @@
+/**
+ * Agent API
+ *
+ * POST /api/agent  { message, agent_id | agent, user_id?, session_id?, assets?, stream? }
+ *
+ * `agent` is a registry name (lib/registry.ts), e.g. "Stock Alert Agent".
+ *
+ * Without `stream` the upstream reply is awaited and returned as JSON. With
+ * `stream: true` the response is an SSE stream instead:
+ *
+ *   event: delta  data: { text }         — each token chunk as it arrives
+ *   event: done   data: <JSON response>  — the same body the JSON mode returns
+ *   event: error  data: { success: false, response, error }
+ *
+ * Validation and upstream HTTP errors are returned as plain JSON in both modes.
+ * Upstream timeouts, retries and circuit breaking are handled in
+ * lib/agentServer.ts; `response.metadata.upstream` reports how the call went
+ * (attempts, retries, duration, breaker state), and 429/503 replies carry a
+ * Retry-After header.
+ *
+ * When the agent has a schema in response_schemas/, `response.result` is checked
+ * against it and the body carries `schema_violations` (empty when it conforms).
+ *
+ * Every successful exchange is recorded under its session (lib/agentSessions.ts).
+ * Omitting session_id starts a new session, and its ID is returned so the caller
+ * can resume it. A known session_id must be used with its owner's user_id and
+ * the same agent.
+ */
+
 import { NextRequest, NextResponse } from 'next/server'
 import parseLLMJson from '@/lib/jsonParser'
-
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
-
-// Types
-interface ArtifactFile {
-  file_url: string
-  name: string
-  format_type: string
-}
-
-interface ModuleOutputs {
-  artifact_files?: ArtifactFile[]
-  [key: string]: any
-}
-
-interface NormalizedAgentResponse {
-  status: 'success' | 'error'
-  result: Record<string, any>
-  message?: string
-  metadata?: {
-    agent_name?: string
-    timestamp?: string
-    [key: string]: any
-  }
-}
+import { LYZR_API_KEY, sendAgentMessage, openAgentStream, parseAgentReply, type AgentPayload, type AgentReply } from '@/lib/agentServer'
+import { createSSEParser, formatSSE, readTextStream } from '@/lib/sse'
+import { validateAgentOutput } from '@/lib/responseSchemas'
+import { resolveAgentRef } from '@/lib/registry'
+import { getSession, checkSessionAccess, recordExchange, newSessionId } from '@/lib/agentSessions'
+import type { NormalizedAgentResponse } from '@/lib/aiAgent'
 
 function generateUUID(): string {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
@@ -35,124 +44,196 @@ function generateUUID(): string {
   })
 }
 
-function normalizeResponse(parsed: any): NormalizedAgentResponse {
-  if (!parsed) {
-    return {
-      status: 'error',
-      result: {},
-      message: 'Empty response from agent',
-    }
-  }
+function errorResponse(
+  message: string,
+  status: number,
+  extra?: Record<string, unknown>,
+  metadata?: NormalizedAgentResponse['metadata']
+) {
+  return NextResponse.json(
+    {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message,
+        ...(metadata && { metadata }),
+      },
+      error: message,
+      ...extra,
+    },
+    { status }
+  )
+}
 
-  if (typeof parsed === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed },
-      message: parsed,
-    }
-  }
+/** Build the success body from the agent's raw reply text. */
+function buildAgentResult(
+  rawText: string,
+  meta: { agent_id: string; user_id: string; session_id: string },
+  upstream: AgentReply['upstream']
+) {
+  const { response: normalized, moduleOutputs } = parseAgentReply(rawText)
+  normalized.metadata = { ...normalized.metadata, upstream }
+  const violations = validateAgentOutput(meta.agent_id, normalized.result)
 
-  if (typeof parsed !== 'object') {
-    return {
-      status: 'success',
-      result: { value: parsed },
-      message: String(parsed),
-    }
+  return {
+    success: true,
+    response: normalized,
+    ...(violations && { schema_violations: violations }),
+    module_outputs: moduleOutputs,
+    agent_id: meta.agent_id,
+    user_id: meta.user_id,
+    session_id: meta.session_id,
+    timestamp: new Date().toISOString(),
+    raw_response: rawText,
   }
+}
 
-  if ('status' in parsed && 'result' in parsed) {
-    return {
-      status: parsed.status === 'error' ? 'error' : 'success',
-      result: parsed.result || {},
-      message: parsed.message,
-      metadata: parsed.metadata,
-    }
+/** Add the exchange to the session's history. History is best-effort — a store failure doesn't fail the call. */
+async function recordTurn(payload: AgentPayload, response: NormalizedAgentResponse) {
+  try {
+    await recordExchange({
+      sessionId: payload.session_id,
+      userId: payload.user_id,
+      agentId: payload.agent_id,
+      message: payload.message,
+      response,
+    })
+  } catch (error) {
+    console.error('Failed to record agent session:', error)
   }
+}
 
-  if ('status' in parsed) {
-    const { status, message, metadata, ...rest } = parsed
-    return {
-      status: status === 'error' ? 'error' : 'success',
-      result: Object.keys(rest).length > 0 ? rest : {},
-      message,
-      metadata,
-    }
+function upstreamFailure(reply: AgentReply) {
+  const response = errorResponse(
+    upstreamErrorMessage(reply.rawText, reply.status),
+    reply.status,
+    { raw_response: reply.rawText },
+    { upstream: reply.upstream }
+  )
+  if (reply.retryAfterMs !== undefined) {
+    response.headers.set('Retry-After', String(Math.ceil(reply.retryAfterMs / 1000)))
   }
+  return response
+}
 
-  if ('result' in parsed) {
-    const r = parsed.result
-    const msg = parsed.message
-      ?? (typeof r === 'string' ? r : null)
-      ?? (r && typeof r === 'object'
-          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
-          : null)
-    return {
-      status: 'success',
-      result: typeof r === 'string' ? { text: r } : (r || {}),
-      message: typeof msg === 'string' ? msg : undefined,
-      metadata: parsed.metadata,
-    }
+function upstreamErrorMessage(rawText: string, status: number): string {
+  let errorMsg = `API returned status ${status}`
+  try {
+    const errorData = JSON.parse(rawText)
+    errorMsg = errorData?.detail || errorData?.error || errorData?.message || errorMsg
+  } catch {
+    try {
+      const errorData = parseLLMJson(rawText)
+      errorMsg = errorData?.error || errorData?.message || errorMsg
+    } catch {}
   }
+  return errorMsg
+}
 
-  if ('message' in parsed && typeof parsed.message === 'string') {
-    return {
-      status: 'success',
-      result: { text: parsed.message },
-      message: parsed.message,
-    }
-  }
+/**
+ * Relay the upstream token stream as SSE. Tokens are forwarded as `delta`
+ * events and accumulated; once upstream finishes the full text goes through
+ * the same parsing as JSON mode and is sent as the `done` event.
+ */
+async function streamAgentResponse(request: NextRequest, payload: AgentPayload) {
+  const upstreamAbort = new AbortController()
+  request.signal.addEventListener('abort', () => upstreamAbort.abort())
+  const started = Date.now()
 
-  if ('response' in parsed) {
-    return normalizeResponse(parsed.response)
+  const upstream = await openAgentStream(payload, { signal: upstreamAbort.signal })
+  if (!upstream.ok) {
+    return upstreamFailure(upstream)
   }
 
-  return {
-    status: 'success',
-    result: parsed,
-    message: undefined,
-    metadata: undefined,
-  }
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(formatSSE(event, data)))
+      let rawText = ''
+      let upstreamError: string | null = null
+      let finished = false
+
+      const parser = createSSEParser(({ event, data }) => {
+        if (finished) return
+        if (event === 'error') {
+          upstreamError = data || 'Agent stream failed'
+          finished = true
+        } else if (data === '[DONE]') {
+          finished = true
+        } else {
+          rawText += data
+          send('delta', { text: data })
+        }
+      })
+
+      try {
+        await readTextStream(upstream.body!, chunk => parser.push(chunk))
+        parser.flush()
+        if (upstreamError) {
+          send('error', { success: false, response: { status: 'error', result: {}, message: upstreamError, metadata: { upstream: upstream.upstream } }, error: upstreamError, raw_response: rawText })
+        } else {
+          const result = buildAgentResult(rawText, payload, { ...upstream.upstream, duration_ms: Date.now() - started })
+          await recordTurn(payload, result.response)
+          send('done', result)
+        }
+      } catch (error) {
+        // The client went away — nobody is listening for an error event
+        if (upstreamAbort.signal.aborted) return
+        const errorMsg = error instanceof Error ? error.message : 'Stream interrupted'
+        send('error', { success: false, response: { status: 'error', result: {}, message: errorMsg, metadata: { upstream: upstream.upstream } }, error: errorMsg, raw_response: rawText })
+      }
+      controller.close()
+    },
+    cancel() {
+      upstreamAbort.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { message, agent_id, user_id, session_id, assets } = body
+    const { message, user_id, session_id, assets, stream } = body
+    const { agentId: agent_id, error: agentError } = resolveAgentRef(body)
 
+    if (agentError) {
+      return errorResponse(agentError, 400)
+    }
     if (!message || !agent_id) {
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: 'message and agent_id are required',
-          },
-          error: 'message and agent_id are required',
-        },
-        { status: 400 }
-      )
+      return errorResponse('message and agent_id (or agent) are required', 400)
     }
 
     if (!LYZR_API_KEY) {
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: 'LYZR_API_KEY not configured',
-          },
-          error: 'LYZR_API_KEY not configured on server',
-        },
-        { status: 500 }
-      )
+      return errorResponse('LYZR_API_KEY not configured on server', 500)
+    }
+
+    // Resuming requires the owner's user_id; it is never filled in from the session
+    if (session_id) {
+      const existing = await getSession(session_id)
+      if (existing) {
+        if (!user_id) {
+          return errorResponse('user_id is required to continue an existing session', 403)
+        }
+        const denied = checkSessionAccess(existing, user_id, agent_id)
+        if (denied) {
+          return errorResponse(denied.error, denied.status)
+        }
+      }
     }
 
     const finalUserId = user_id || `user-${generateUUID()}`
-    const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+    const finalSessionId = session_id || newSessionId(agent_id)
 
-    const payload: Record<string, any> = {
+    const payload: AgentPayload = {
       message,
       agent_id,
       user_id: finalUserId,
@@ -163,94 +244,20 @@ export async function POST(request: NextRequest) {
       payload.assets = assets
     }
 
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify(payload),
-    })
+    if (stream) {
+      return await streamAgentResponse(request, payload)
+    }
 
-    const rawText = await response.text()
+    const response = await sendAgentMessage(payload, { signal: request.signal })
 
     if (response.ok) {
-      // Parse the Lyzr API envelope first to extract module_outputs
-      // before parseLLMJson unwraps through the "response" key and loses siblings
-      let moduleOutputs: ModuleOutputs | undefined
-      let agentResponseRaw: any = rawText
-
-      try {
-        const envelope = JSON.parse(rawText)
-        if (envelope && typeof envelope === 'object' && 'response' in envelope) {
-          moduleOutputs = envelope.module_outputs
-          agentResponseRaw = envelope.response
-        }
-      } catch {
-        // Not standard JSON envelope, fall through — parseLLMJson will handle it
-      }
-
-      // Now parse only the agent's response with LLM JSON recovery
-      const parsed = parseLLMJson(agentResponseRaw)
-
-      // If parseLLMJson couldn't find JSON, the agent returned plain text — that's valid.
-      // Pass the raw agent response to normalizeResponse which handles strings.
-      const toNormalize =
-        parsed && typeof parsed === 'object' && parsed.success === false && parsed.data === null
-          ? agentResponseRaw
-          : parsed
-
-      const normalized = normalizeResponse(toNormalize)
-
-      return NextResponse.json({
-        success: true,
-        response: normalized,
-        module_outputs: moduleOutputs,
-        agent_id,
-        user_id: finalUserId,
-        session_id: finalSessionId,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
-      })
-    } else {
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = JSON.parse(rawText)
-        errorMsg = errorData?.detail || errorData?.error || errorData?.message || errorMsg
-      } catch {
-        try {
-          const errorData = parseLLMJson(rawText)
-          errorMsg = errorData?.error || errorData?.message || errorMsg
-        } catch {}
-      }
-
-      return NextResponse.json(
-        {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: errorMsg,
-          },
-          error: errorMsg,
-          raw_response: rawText,
-        },
-        { status: response.status }
-      )
+      const result = buildAgentResult(response.rawText, payload, response.upstream)
+      await recordTurn(payload, result.response)
+      return NextResponse.json(result)
     }
+
+    return upstreamFailure(response)
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Server error'
-    return NextResponse.json(
-      {
-        success: false,
-        response: {
-          status: 'error',
-          result: {},
-          message: errorMsg,
-        },
-        error: errorMsg,
-      },
-      { status: 500 }
-    )
+    return errorResponse(error instanceof Error ? error.message : 'Server error', 500)
   }
 }
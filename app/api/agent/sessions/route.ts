@@ -0,0 +1,108 @@
+/**
+ * Agent Sessions API
+ *
+ * GET    /api/agent/sessions?user_id=[&agent_id=|&agent=]  — the user's sessions, most recent first
+ * GET    /api/agent/sessions?user_id=&session_id=          — one session with its message history
+ * POST   /api/agent/sessions  { user_id, agent_id | agent, title? }  — start an empty session
+ * DELETE /api/agent/sessions  { user_id, session_id }
+ *
+ * Conversations themselves go through /api/agent with the session_id; see
+ * lib/agentSessions.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getSession,
+  listSessions,
+  createSession,
+  deleteSession,
+  checkSessionAccess,
+} from '@/lib/agentSessions'
+import { resolveAgentRef } from '@/lib/registry'
+
+export const dynamic = 'force-dynamic'
+
+function serverError(error: unknown) {
+  return NextResponse.json(
+    { success: false, error: error instanceof Error ? error.message : 'Server error' },
+    { status: 500 }
+  )
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const userId = searchParams.get('user_id')
+    const sessionId = searchParams.get('session_id')
+    if (!userId) {
+      return NextResponse.json({ success: false, error: 'user_id is required' }, { status: 400 })
+    }
+
+    if (sessionId) {
+      const session = await getSession(sessionId)
+      if (!session) {
+        return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+      }
+      const denied = checkSessionAccess(session, userId)
+      if (denied) {
+        return NextResponse.json({ success: false, error: denied.error }, { status: denied.status })
+      }
+      return NextResponse.json({ success: true, session })
+    }
+
+    const agentRef = resolveAgentRef({ agent_id: searchParams.get('agent_id'), agent: searchParams.get('agent') })
+    if (agentRef.error) {
+      return NextResponse.json({ success: false, error: agentRef.error }, { status: 400 })
+    }
+    const sessions = await listSessions({ userId, agentId: agentRef.agentId })
+    return NextResponse.json({ success: true, sessions })
+  } catch (error) {
+    return serverError(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { agentId, error: agentError } = resolveAgentRef(body)
+    if (agentError) {
+      return NextResponse.json({ success: false, error: agentError }, { status: 400 })
+    }
+    if (!body.user_id || !agentId) {
+      return NextResponse.json({ success: false, error: 'user_id and agent_id (or agent) are required' }, { status: 400 })
+    }
+
+    const session = await createSession({
+      userId: body.user_id,
+      agentId,
+      title: typeof body.title === 'string' ? body.title : undefined,
+    })
+    return NextResponse.json({ success: true, session }, { status: 201 })
+  } catch (error) {
+    return serverError(error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { user_id, session_id } = body
+    if (!user_id || !session_id) {
+      return NextResponse.json({ success: false, error: 'user_id and session_id are required' }, { status: 400 })
+    }
+
+    const session = await getSession(session_id)
+    if (!session) {
+      return NextResponse.json({ success: false, error: 'Session not found' }, { status: 404 })
+    }
+    const denied = checkSessionAccess(session, user_id)
+    if (denied) {
+      return NextResponse.json({ success: false, error: denied.error }, { status: denied.status })
+    }
+
+    await deleteSession(session_id)
+    return NextResponse.json({ success: true, session_id })
+  } catch (error) {
+    return serverError(error)
+  }
+}
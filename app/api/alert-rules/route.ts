@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateAlertRules, type AlertRule } from '@/lib/alertRules'
+import { getScheduleSettings, changeScheduleSettings } from '@/lib/scheduleSettings'
+import { checkClientLimit } from '@/lib/rateLimiter'
+
+// ---------------------------------------------------------------------------
+// GET — rules stored for a schedule
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const scheduleId = request.nextUrl.searchParams.get('scheduleId')
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+    }
+
+    const settings = await getScheduleSettings(scheduleId)
+    return NextResponse.json({ success: true, scheduleId, rules: settings.rules })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — replace a schedule's rules and inject them into its message upstream
+// (audited and rate limited like /api/scheduler changes)
+// ---------------------------------------------------------------------------
+export async function PUT(request: NextRequest) {
+  try {
+    const limited = checkClientLimit(request)
+    if (limited) return limited
+
+    const body = await request.json()
+    const { scheduleId, rules } = body
+
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+    }
+    const validationError = validateAlertRules(rules)
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+
+    const { settings, schedule, ...result } = await changeScheduleSettings(request, 'update-rules', scheduleId, { rules: rules as AlertRule[] })
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Rules saved but the schedule could not be updated: ${result.error}`,
+          details: result.details,
+          ...(result.schema_error && { schema_error: result.schema_error }),
+          rules: settings.rules,
+        },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, scheduleId, rules: settings.rules, schedule })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Alert History Export
+ *
+ * GET /api/alerts/export?scheduleId=&format=csv|json|xls&from=YYYY-MM-DD&to=YYYY-MM-DD&tz=
+ *
+ * Streams every execution of a schedule in the date range, paging through the
+ * scheduler backend's logs, with the parsed StockAlertData fields flattened into
+ * columns. `xls` is an Excel 2003 XML Spreadsheet (SpreadsheetML, not .xlsx),
+ * which Excel, Numbers and LibreOffice open directly.
+ *
+ * Date-only `from`/`to` are whole days in `tz` (an IANA timezone, default UTC);
+ * ISO timestamps are taken as is. Pages are fetched as the client reads, and
+ * the export is a snapshot: executions logged after it starts are left out and
+ * rows shifted onto a later page by them aren't written twice.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSchedulerBackend } from '@/lib/schedulerBackend'
+import { parseExecutionData } from '@/lib/stockAlert'
+import { zonedTimeToDate } from '@/lib/cron'
+import { isValidTimezone } from '@/lib/scheduleValidation'
+import type { ExecutionLog } from '@/lib/scheduler'
+
+const PAGE_SIZE = 100
+const MAX_PAGES = 500
+
+type ExportFormat = 'csv' | 'json' | 'xls'
+
+const FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  xls: { contentType: 'application/vnd.ms-excel; charset=utf-8', extension: 'xls' },
+}
+
+const COLUMNS = [
+  'execution_id',
+  'executed_at',
+  'success',
+  'attempt',
+  'max_attempts',
+  'response_status',
+  'error_message',
+  'stock_symbol',
+  'current_price',
+  'daily_change_amount',
+  'daily_change_percentage',
+  'quote_timestamp',
+  'market_status',
+  'email_sent',
+  'recipient_email',
+  'triggered_rule',
+] as const
+
+type ExportRow = Record<(typeof COLUMNS)[number], string | number | boolean | null>
+
+function flattenLog(log: ExecutionLog): ExportRow {
+  const data = parseExecutionData(log)
+  return {
+    execution_id: log.id,
+    executed_at: log.executed_at,
+    success: log.success,
+    attempt: log.attempt,
+    max_attempts: log.max_attempts,
+    response_status: log.response_status,
+    error_message: log.error_message,
+    stock_symbol: data?.stock_symbol ?? null,
+    current_price: data?.current_price ?? null,
+    daily_change_amount: data?.daily_change_amount ?? null,
+    daily_change_percentage: data?.daily_change_percentage ?? null,
+    quote_timestamp: data?.timestamp ?? null,
+    market_status: data?.market_status ?? null,
+    email_sent: data?.email_sent ?? null,
+    recipient_email: data?.recipient_email ?? null,
+    triggered_rule: data?.triggered_rule ?? null,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Serializers
+// ---------------------------------------------------------------------------
+
+function csvCell(value: ExportRow[keyof ExportRow]): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  // Keep spreadsheets from evaluating text as a formula
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function excelCell(value: ExportRow[keyof ExportRow]): string {
+  if (value === null || value === undefined) return '<Cell/>'
+  if (typeof value === 'number') return `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+  if (typeof value === 'boolean') return `<Cell><Data ss:Type="Boolean">${value ? 1 : 0}</Data></Cell>`
+  return `<Cell><Data ss:Type="String">${xmlEscape(value)}</Data></Cell>`
+}
+
+const serializers: Record<ExportFormat, {
+  header: () => string
+  row: (row: ExportRow, index: number) => string
+  footer: () => string
+}> = {
+  csv: {
+    header: () => `${COLUMNS.join(',')}\r\n`,
+    row: (row) => `${COLUMNS.map(c => csvCell(row[c])).join(',')}\r\n`,
+    footer: () => '',
+  },
+  json: {
+    header: () => '[\n',
+    row: (row, index) => `${index > 0 ? ',\n' : ''}${JSON.stringify(row)}`,
+    footer: () => '\n]\n',
+  },
+  xls: {
+    header: () =>
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<?mso-application progid="Excel.Sheet"?>\n' +
+      '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" ' +
+      'xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">\n' +
+      '<Worksheet ss:Name="Alert History"><Table>\n' +
+      `<Row>${COLUMNS.map(c => excelCell(c)).join('')}</Row>\n`,
+    row: (row) => `<Row>${COLUMNS.map(c => excelCell(row[c])).join('')}</Row>\n`,
+    footer: () => '</Table></Worksheet></Workbook>\n',
+  },
+}
+
+/** A date-only value is the start (or end) of that day in `timeZone`. */
+function parseDateParam(value: string | null, endOfDay: boolean, timeZone: string): Date | null {
+  if (!value) return null
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!day) {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  const [year, month, date] = day.slice(1).map(Number)
+  if (!endOfDay) return zonedTimeToDate(year, month, date, 0, 0, timeZone)
+  // Last millisecond before the next day starts
+  const next = new Date(Date.UTC(year, month - 1, date + 1))
+  const start = zonedTimeToDate(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), 0, 0, timeZone)
+  return new Date(start.getTime() - 1)
+}
+
+// ---------------------------------------------------------------------------
+// GET — stream the export
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const scheduleId = searchParams.get('scheduleId')
+  const format = searchParams.get('format') || 'csv'
+  const timeZone = searchParams.get('tz') || 'UTC'
+
+  if (!scheduleId) {
+    return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+  }
+  if (!Object.hasOwn(FORMATS, format)) {
+    return NextResponse.json({ success: false, error: 'format must be csv, json or xls' }, { status: 400 })
+  }
+  if (!isValidTimezone(timeZone)) {
+    return NextResponse.json({ success: false, error: `Unknown timezone: ${timeZone}` }, { status: 400 })
+  }
+  const from = parseDateParam(searchParams.get('from'), false, timeZone)
+  const to = parseDateParam(searchParams.get('to'), true, timeZone)
+  if ((searchParams.get('from') && !from) || (searchParams.get('to') && !to)) {
+    return NextResponse.json({ success: false, error: 'from/to must be dates (YYYY-MM-DD) or ISO timestamps' }, { status: 400 })
+  }
+
+  // Fetch the first page up front so backend errors surface as a JSON error, not a broken file
+  const backend = getSchedulerBackend()
+  const firstPage = await backend.getLogs(scheduleId, { skip: 0, limit: PAGE_SIZE })
+  if (!firstPage.success || !firstPage.data) {
+    return NextResponse.json(
+      { success: false, error: firstPage.error, details: firstPage.details },
+      { status: firstPage.status }
+    )
+  }
+
+  const serializer = serializers[format as ExportFormat]
+  const encoder = new TextEncoder()
+
+  // Snapshot: nothing logged after the export started, and no row twice
+  const startedAt = new Date()
+  const seen = new Set<string>()
+  let page: ExecutionLog[] | null = firstPage.data.executions ?? []
+  let pageIndex = 0
+  let rowIndex = 0
+
+  /** Serialize one page's rows in range; `more` is false once past the range's start or out of logs. */
+  const writePage = (logs: ExecutionLog[]): { text: string; more: boolean } => {
+    let text = ''
+    for (const log of logs) {
+      const executedAt = new Date(log.executed_at)
+      if (seen.has(log.id) || executedAt > startedAt || (to && executedAt > to)) continue
+      if (from && executedAt < from) return { text, more: false }
+      seen.add(log.id)
+      text += serializer.row(flattenLog(log), rowIndex++)
+    }
+    return { text, more: logs.length === PAGE_SIZE }
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(serializer.header()))
+    },
+    // One page per pull, so a slow download doesn't buffer the whole history.
+    // Pages with no rows in range are skipped over: a pull must enqueue or close
+    async pull(controller) {
+      try {
+        while (true) {
+          if (!page) {
+            const next = await backend.getLogs(scheduleId, { skip: pageIndex * PAGE_SIZE, limit: PAGE_SIZE })
+            if (!next.success || !next.data) {
+              throw new Error(next.error ?? 'Failed to fetch execution logs')
+            }
+            page = next.data.executions ?? []
+          }
+
+          const { text, more } = writePage(page)
+          if (text) controller.enqueue(encoder.encode(text))
+          page = null
+          pageIndex++
+
+          if (!more || pageIndex >= MAX_PAGES) {
+            controller.enqueue(encoder.encode(serializer.footer()))
+            controller.close()
+            return
+          }
+          if (text) return
+        }
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+  })
+
+  const rangeLabel = [searchParams.get('from'), searchParams.get('to')].filter(Boolean).join('_to_') || 'all'
+  const filename = `alert-history_${scheduleId}_${rangeLabel}.${FORMATS[format as ExportFormat].extension}`.replace(/[^\w.\-]/g, '_')
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': FORMATS[format as ExportFormat].contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,40 @@
+/**
+ * Scheduler Activity
+ *
+ * GET /api/scheduler/activity?scheduleId=&action=&actor=&skip=&limit=
+ *
+ * The audit trail of mutating /api/scheduler calls and schedule settings
+ * changes, newest first (see lib/auditTrail.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { listAudit } from '@/lib/auditTrail'
+import { AUDIT_ACTION_LABELS, type AuditAction } from '@/lib/activity'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_LIMIT = 200
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const action = searchParams.get('action')
+    if (action && !(action in AUDIT_ACTION_LABELS)) {
+      return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 })
+    }
+
+    const result = await listAudit({
+      scheduleId: searchParams.get('scheduleId') || undefined,
+      action: (action as AuditAction) || undefined,
+      actor: searchParams.get('actor') || undefined,
+      skip: Math.max(0, Number(searchParams.get('skip')) || 0),
+      limit: Math.min(MAX_LIMIT, Number(searchParams.get('limit')) || 50),
+    })
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Schedule Events (Server-Sent Events)
+ *
+ * GET /api/scheduler/events?scheduleId=
+ *
+ * Streams `schedule` events (state changes, plus the current state on connect),
+ * `execution` events (new ExecutionLogs) and `upstream_error` events for one
+ * schedule, backed by the shared watcher in lib/scheduleWatcher.ts. A comment
+ * line is sent every 15s to keep proxies from closing the connection.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { watchSchedule, type WatchEvent } from '@/lib/scheduleWatcher'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_MS = 15000
+const RETRY_MS = 5000
+
+export async function GET(request: NextRequest) {
+  const scheduleId = request.nextUrl.searchParams.get('scheduleId')
+  if (!scheduleId) {
+    return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup: (() => void) | null = null
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const write = (text: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(text))
+        } catch {
+          cleanup?.()
+        }
+      }
+
+      const send = (event: WatchEvent) => {
+        const { type, ...payload } = event
+        write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`)
+      }
+
+      write(`retry: ${RETRY_MS}\n\n`)
+      const unsubscribe = watchSchedule(scheduleId, send)
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+      request.signal.addEventListener('abort', () => cleanup?.())
+    },
+    cancel() {
+      cleanup?.()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -1,17 +1,63 @@
+/**
+ * Scheduler API
+ *
+ * Schedule and execution-log actions go to the configured scheduler backend
+ * (SCHEDULER_BACKEND=upstream|local, see lib/schedulerBackend.ts). Webhooks
+ * only exist on the hosted Scheduler API and are proxied to it directly.
+ *
+ * Every POST and DELETE is recorded in the audit trail (lib/auditTrail.ts)
+ * and counted against the client's rate limit; manual triggers also have a
+ * per-schedule cooldown (lib/rateLimiter.ts). Rejections are 429s carrying a
+ * `rate_limit` object and a Retry-After header.
+ *
+ * Responses are validated against lib/schedulerSchemas.ts before they reach
+ * the dashboard; a mismatch is a 502 with the offending field paths in
+ * `schema_error`.
+ *
+ * Wherever an agent ID is taken (`agentId` query, `agent_id` body field), an
+ * agent name from lib/registry.ts can be passed as `agent` instead.
+ */
+
 import { NextRequest, NextResponse } from 'next/server'
+import { SCHEDULER_BASE_URL, LYZR_API_KEY, getSchedulerHeaders as getHeaders } from '@/lib/schedulerServer'
+import { getSchedulerBackend, type SchedulerResult } from '@/lib/schedulerBackend'
+import { startTrackedTrigger, getTrackedTrigger } from '@/lib/triggerTracker'
+import { getScheduleSettings, saveScheduleSettings, composeScheduleMessage } from '@/lib/scheduleSettings'
+import { stripInjectedSettings } from '@/lib/scheduleMessage'
+import { validateScheduleFields, EDITABLE_SCHEDULE_FIELDS, type EditableScheduleFields } from '@/lib/scheduleValidation'
+import { getRequestActor, recordAudit } from '@/lib/auditTrail'
+import { reserveTriggerCooldown, releaseTriggerCooldown, rateLimited, checkClientLimit } from '@/lib/rateLimiter'
+import type { AuditAction, AuditTargetType } from '@/lib/activity'
+import type { Schedule, Webhook } from '@/lib/scheduler'
+import { validateResource, describeSchemaError, SCHEDULER_SCHEMA_MODE, type SchedulerResource } from '@/lib/schedulerSchemas'
+import { resolveAgentRef } from '@/lib/registry'
+import { limitCronToTradingMode } from '@/lib/marketCalendar'
+import { setScheduleActiveGated } from '@/lib/tradingHoursGate'
 
-const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+// Request bodies
+interface SchedulerPostBody extends Partial<EditableScheduleFields> {
+  /** Defaults to create. */
+  action?: string
+  scheduleId?: string
+  webhookId?: string
+  agent_id?: string
+  agent?: string
+  /** Webhook description (create-webhook). */
+  description?: string
+}
 
-function getHeaders() {
-  return {
-    'Content-Type': 'application/json',
-    'accept': 'application/json',
-    'x-api-key': LYZR_API_KEY,
-  }
+interface SchedulerDeleteBody {
+  scheduleId?: string
+  webhookId?: string
 }
 
-function apiKeyCheck() {
+function webhooksCheck() {
+  if (getSchedulerBackend().kind !== 'upstream') {
+    return NextResponse.json(
+      { success: false, error: 'Webhooks are only available with the upstream scheduler backend' },
+      { status: 501 }
+    )
+  }
   if (!LYZR_API_KEY) {
     return NextResponse.json(
       { success: false, error: 'LYZR_API_KEY not configured on server' },
@@ -21,78 +67,136 @@ function apiKeyCheck() {
   return null
 }
 
+/** Success response for `data`, validated as `resource` when given. */
+function validated(data: unknown, resource?: SchedulerResource, extra?: Record<string, unknown>) {
+  if (!resource) return NextResponse.json({ success: true, ...(data as Record<string, unknown> | undefined), ...extra })
+
+  const checked = validateResource(resource, data, SCHEDULER_SCHEMA_MODE)
+  if (!checked.success) {
+    console.error('Scheduler response failed validation:', JSON.stringify(checked.error))
+    return NextResponse.json(
+      { success: false, error: describeSchemaError(checked.error), schema_error: checked.error },
+      { status: 502 }
+    )
+  }
+  return NextResponse.json({ success: true, ...checked.data, ...extra })
+}
+
+function respond<T>(result: SchedulerResult<T>, resource?: SchedulerResource, extra?: Record<string, unknown>) {
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, error: result.error, details: result.details },
+      { status: result.status }
+    )
+  }
+  return validated(result.data, resource, extra)
+}
+
+function numberParam(value: string | null): number | undefined {
+  return value ? Number(value) : undefined
+}
+
+function booleanParam(value: string | null): boolean | undefined {
+  return value ? value === 'true' : undefined
+}
+
 // ---------------------------------------------------------------------------
-// GET — list | get | by-agent | logs | recent
+// GET — list | get | by-agent | logs | recent | webhooks | webhook | trigger-status
 // ---------------------------------------------------------------------------
 export async function GET(request: NextRequest) {
-  const check = apiKeyCheck()
-  if (check) return check
-
   try {
     const { searchParams } = new URL(request.url)
     const action = searchParams.get('action') || 'list'
     const scheduleId = searchParams.get('scheduleId')
-    const agentId = searchParams.get('agentId')
+    const agentRef = resolveAgentRef({ agent_id: searchParams.get('agentId'), agent: searchParams.get('agent') })
+    if (agentRef.error) {
+      return NextResponse.json({ success: false, error: agentRef.error }, { status: 400 })
+    }
+    const agentId = agentRef.agentId ?? null
+    const webhookId = searchParams.get('webhookId')
+    const backend = getSchedulerBackend()
 
     let url: string
 
     switch (action) {
-      // GET /schedules/{schedule_id}
+      // Tracked manual trigger state (local, see lib/triggerTracker.ts)
+      case 'trigger-status': {
+        const token = searchParams.get('token')
+        if (!token) {
+          return NextResponse.json({ success: false, error: 'token is required' }, { status: 400 })
+        }
+        const trigger = getTrackedTrigger(token)
+        if (!trigger) {
+          return NextResponse.json({ success: false, error: 'Unknown or expired trigger token' }, { status: 404 })
+        }
+        return NextResponse.json({ success: true, trigger })
+      }
+
+      // GET /webhooks/?user_id=&agent_id=
+      case 'webhooks': {
+        const check = webhooksCheck()
+        if (check) return check
+        const webhooksQuery = new URLSearchParams()
+        webhooksQuery.set('user_id', LYZR_API_KEY)
+        if (agentId) webhooksQuery.set('agent_id', agentId)
+        url = `${SCHEDULER_BASE_URL}/webhooks/?${webhooksQuery}`
+        break
+      }
+
+      // GET /webhooks/{webhook_id}
+      case 'webhook': {
+        const check = webhooksCheck()
+        if (check) return check
+        if (!webhookId) {
+          return NextResponse.json({ success: false, error: 'webhookId is required' }, { status: 400 })
+        }
+        url = `${SCHEDULER_BASE_URL}/webhooks/${webhookId}`
+        break
+      }
+
       case 'get': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}`
-        break
+        return respond(await backend.getSchedule(scheduleId), 'Schedule')
       }
 
-      // GET /schedules/by-agent/{agent_id}
       case 'by-agent': {
         if (!agentId) {
           return NextResponse.json({ success: false, error: 'agentId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/by-agent/${agentId}`
-        break
+        return respond(await backend.getSchedulesForAgent(agentId), 'AgentSchedules')
       }
 
-      // GET /schedules/{schedule_id}/logs?skip=&limit=
       case 'logs': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        const logsQuery = new URLSearchParams()
-        if (searchParams.get('skip')) logsQuery.set('skip', searchParams.get('skip')!)
-        if (searchParams.get('limit')) logsQuery.set('limit', searchParams.get('limit')!)
-        const logsQs = logsQuery.toString() ? `?${logsQuery}` : ''
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/logs${logsQs}`
-        break
+        return respond(await backend.getLogs(scheduleId, {
+          skip: numberParam(searchParams.get('skip')),
+          limit: numberParam(searchParams.get('limit')),
+        }), 'ExecutionList')
       }
 
-      // GET /schedules/executions/recent?agent_id=&success=&hours=&days=&skip=&limit=
       case 'recent': {
-        const recentQuery = new URLSearchParams()
-        if (agentId) recentQuery.set('agent_id', agentId)
-        if (searchParams.get('success')) recentQuery.set('success', searchParams.get('success')!)
-        if (searchParams.get('hours')) recentQuery.set('hours', searchParams.get('hours')!)
-        if (searchParams.get('days')) recentQuery.set('days', searchParams.get('days')!)
-        if (searchParams.get('skip')) recentQuery.set('skip', searchParams.get('skip')!)
-        if (searchParams.get('limit')) recentQuery.set('limit', searchParams.get('limit')!)
-        const recentQs = recentQuery.toString() ? `?${recentQuery}` : ''
-        url = `${SCHEDULER_BASE_URL}/schedules/executions/recent${recentQs}`
-        break
+        return respond(await backend.getRecentExecutions({
+          agentId: agentId ?? undefined,
+          success: booleanParam(searchParams.get('success')),
+          hours: numberParam(searchParams.get('hours')),
+          days: numberParam(searchParams.get('days')),
+          skip: numberParam(searchParams.get('skip')),
+          limit: numberParam(searchParams.get('limit')),
+        }), 'ExecutionList')
       }
 
-      // GET /schedules/?user_id=&agent_id=&is_active=&skip=&limit=
       case 'list':
       default: {
-        const listQuery = new URLSearchParams()
-        listQuery.set('user_id', LYZR_API_KEY)
-        if (agentId) listQuery.set('agent_id', agentId)
-        if (searchParams.get('is_active')) listQuery.set('is_active', searchParams.get('is_active')!)
-        if (searchParams.get('skip')) listQuery.set('skip', searchParams.get('skip')!)
-        if (searchParams.get('limit')) listQuery.set('limit', searchParams.get('limit')!)
-        url = `${SCHEDULER_BASE_URL}/schedules/?${listQuery}`
-        break
+        return respond(await backend.listSchedules({
+          agentId: agentId ?? undefined,
+          is_active: booleanParam(searchParams.get('is_active')),
+          skip: numberParam(searchParams.get('skip')),
+          limit: numberParam(searchParams.get('limit')),
+        }), 'ScheduleList')
       }
     }
 
@@ -106,8 +210,7 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const data = await response.json()
-    return NextResponse.json({ success: true, ...data })
+    return validated(await response.json(), action === 'webhooks' ? 'WebhookList' : 'Webhook')
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
@@ -117,48 +220,140 @@ export async function GET(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// POST — create | pause | resume | trigger
+// POST — create | update | pause | resume | trigger
+//        create-webhook | enable-webhook | disable-webhook
 // ---------------------------------------------------------------------------
-export async function POST(request: NextRequest) {
-  const check = apiKeyCheck()
-  if (check) return check
-
+async function handlePost(body: SchedulerPostBody): Promise<Response> {
   try {
-    const body = await request.json()
-    const { action, scheduleId, ...params } = body
+    const { action, scheduleId, webhookId, ...params } = body
+    const backend = getSchedulerBackend()
+
+    const agentRef = resolveAgentRef(params)
+    if (agentRef.error) {
+      return NextResponse.json({ success: false, error: agentRef.error }, { status: 400 })
+    }
+    if (agentRef.agentId) params.agent_id = agentRef.agentId
 
     let url: string
     let fetchBody: string | undefined
 
     switch (action) {
-      // POST /schedules/{schedule_id}/trigger  → 202 Accepted
+      // POST /webhooks/  → 201 with created webhook
+      case 'create-webhook': {
+        const check = webhooksCheck()
+        if (check) return check
+        if (!params.agent_id) {
+          return NextResponse.json({ success: false, error: 'agent_id is required' }, { status: 400 })
+        }
+        url = `${SCHEDULER_BASE_URL}/webhooks/`
+        fetchBody = JSON.stringify({
+          agent_id: params.agent_id,
+          description: params.description || '',
+          user_id: LYZR_API_KEY,
+        })
+        break
+      }
+
+      // POST /webhooks/{webhook_id}/enable | /disable  → 200 with updated webhook
+      case 'enable-webhook':
+      case 'disable-webhook': {
+        const check = webhooksCheck()
+        if (check) return check
+        if (!webhookId) {
+          return NextResponse.json({ success: false, error: 'webhookId is required' }, { status: 400 })
+        }
+        url = `${SCHEDULER_BASE_URL}/webhooks/${webhookId}/${action === 'enable-webhook' ? 'enable' : 'disable'}`
+        break
+      }
+
+      // Runs asynchronously (202), tracked until its execution is logged
       case 'trigger': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/trigger`
-        break
+        const cooldown = reserveTriggerCooldown(scheduleId)
+        if (!cooldown.allowed) {
+          return rateLimited(cooldown.info, 'This schedule was triggered recently')
+        }
+        const started = await startTrackedTrigger(scheduleId)
+        if (!started.success) {
+          releaseTriggerCooldown(scheduleId)
+          return NextResponse.json(
+            { success: false, error: started.error, details: started.details, trigger: started.data },
+            { status: started.status }
+          )
+        }
+        return NextResponse.json(
+          { success: true, message: 'Schedule triggered successfully', trigger: started.data, cooldown: cooldown.info },
+          { status: 202 }
+        )
       }
 
-      // POST /schedules/{schedule_id}/pause  → 200 with updated schedule
-      case 'pause': {
+      case 'pause':
+      case 'resume': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/pause`
-        break
+        // Outside a gated schedule's trading hours a resume waits for the next session
+        const { deferred, ...result } = await setScheduleActiveGated(scheduleId, action === 'resume')
+        return respond(result, 'Schedule', deferred ? { deferred: true } : undefined)
       }
 
-      // POST /schedules/{schedule_id}/resume  → 200 with updated schedule
-      case 'resume': {
+      case 'update': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/resume`
-        break
+
+        const patch: Partial<EditableScheduleFields> = {}
+        for (const field of EDITABLE_SCHEDULE_FIELDS) {
+          if (params[field] !== undefined) (patch as Record<string, unknown>)[field] = params[field]
+        }
+        if (Object.keys(patch).length === 0) {
+          return NextResponse.json(
+            { success: false, error: `Nothing to update. Editable fields: ${EDITABLE_SCHEDULE_FIELDS.join(', ')}` },
+            { status: 400 }
+          )
+        }
+
+        const fieldErrors = validateScheduleFields(patch)
+        if (Object.keys(fieldErrors).length > 0) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid schedule fields', fieldErrors },
+            { status: 400 }
+          )
+        }
+
+        // The edited message is the base message; re-inject the dashboard settings after it
+        let baseMessage: string | undefined
+        if (patch.message !== undefined) {
+          baseMessage = stripInjectedSettings(patch.message)
+          patch.message = composeScheduleMessage(baseMessage, await getScheduleSettings(scheduleId))
+        }
+
+        // Likewise the edited cron is the base cron, narrowed to the schedule's trading hours
+        let baseCron: string | undefined
+        if (patch.cron_expression !== undefined || patch.timezone !== undefined) {
+          const [current, settings] = await Promise.all([backend.getSchedule(scheduleId), getScheduleSettings(scheduleId)])
+          if (!current.success || !current.data) return respond(current)
+          baseCron = patch.cron_expression ?? settings.base_cron ?? current.data.cron_expression
+          patch.cron_expression = limitCronToTradingMode(
+            baseCron,
+            patch.timezone ?? current.data.timezone,
+            settings.trading_mode ?? 'always'
+          )
+        }
+
+        // The bases are only recorded once the schedule really carries them
+        const updated = await backend.updateSchedule(scheduleId, patch)
+        if (updated.success && (baseMessage !== undefined || baseCron !== undefined)) {
+          await saveScheduleSettings(scheduleId, {
+            ...(baseMessage !== undefined && { base_message: baseMessage }),
+            ...(baseCron !== undefined && { base_cron: baseCron }),
+          })
+        }
+        return respond(updated, 'Schedule')
       }
 
-      // POST /schedules/  → 201 with created schedule
       case 'create':
       default: {
         if (!params.agent_id || !params.cron_expression || !params.message) {
@@ -167,17 +362,14 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           )
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/`
-        fetchBody = JSON.stringify({
+        return respond(await backend.createSchedule({
           agent_id: params.agent_id,
           cron_expression: params.cron_expression,
           message: params.message,
           timezone: params.timezone || 'UTC',
-          user_id: LYZR_API_KEY,
           max_retries: params.max_retries ?? 3,
           retry_delay: params.retry_delay ?? 300,
-        })
-        break
+        }), 'Schedule')
       }
     }
 
@@ -187,18 +379,6 @@ export async function POST(request: NextRequest) {
       ...(fetchBody && { body: fetchBody }),
     })
 
-    // Trigger returns 202 Accepted with a string body
-    if (action === 'trigger') {
-      if (response.status === 202) {
-        return NextResponse.json({ success: true, message: 'Schedule triggered successfully' })
-      }
-      const errorText = await response.text()
-      return NextResponse.json(
-        { success: false, error: `Trigger failed: ${response.status}`, details: errorText },
-        { status: response.status }
-      )
-    }
-
     if (!response.ok) {
       const errorText = await response.text()
       return NextResponse.json(
@@ -207,8 +387,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const data = await response.json()
-    return NextResponse.json({ success: true, ...data })
+    return validated(await response.json(), 'Webhook')
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
@@ -218,39 +397,37 @@ export async function POST(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// DELETE — delete schedule  (upstream returns 204 No Content)
+// DELETE — delete schedule or webhook
 // ---------------------------------------------------------------------------
-export async function DELETE(request: NextRequest) {
-  const check = apiKeyCheck()
-  if (check) return check
-
+async function handleDelete(body: SchedulerDeleteBody): Promise<Response> {
   try {
-    const body = await request.json()
-    const { scheduleId } = body
+    const { scheduleId, webhookId } = body
 
-    if (!scheduleId) {
-      return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+    if (webhookId) {
+      const check = webhooksCheck()
+      if (check) return check
+      const response = await fetch(`${SCHEDULER_BASE_URL}/webhooks/${webhookId}`, {
+        method: 'DELETE',
+        headers: getHeaders(),
+      })
+      if (response.status === 204 || response.ok) {
+        return NextResponse.json({ success: true, message: 'Webhook deleted successfully', webhookId })
+      }
+      const errorText = await response.text()
+      return NextResponse.json(
+        { success: false, error: `Failed to delete webhook: ${response.status}`, details: errorText },
+        { status: response.status }
+      )
     }
 
-    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    })
-
-    // Upstream returns 204 No Content on success
-    if (response.status === 204 || response.ok) {
-      return NextResponse.json({
-        success: true,
-        message: 'Schedule deleted successfully',
-        scheduleId,
-      })
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'scheduleId or webhookId is required' }, { status: 400 })
     }
 
-    const errorText = await response.text()
-    return NextResponse.json(
-      { success: false, error: `Failed to delete schedule: ${response.status}`, details: errorText },
-      { status: response.status }
-    )
+    return respond(await getSchedulerBackend().deleteSchedule(scheduleId), undefined, {
+      message: 'Schedule deleted successfully',
+      scheduleId,
+    })
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
@@ -258,3 +435,123 @@ export async function DELETE(request: NextRequest) {
     )
   }
 }
+
+// ---------------------------------------------------------------------------
+// Audit trail
+// ---------------------------------------------------------------------------
+
+const POST_ACTIONS: AuditAction[] = [
+  'create', 'update', 'pause', 'resume', 'trigger',
+  'create-webhook', 'enable-webhook', 'disable-webhook',
+]
+
+/** Current state of an audit target, or null when it can't be read. */
+async function snapshotTarget(type: AuditTargetType, id: string): Promise<Record<string, unknown> | null> {
+  if (type === 'schedule') {
+    const result = await getSchedulerBackend().getSchedule(id)
+    return result.success ? (result.data as unknown as Record<string, unknown>) : null
+  }
+  if (webhooksCheck()) return null
+  try {
+    const response = await fetch(`${SCHEDULER_BASE_URL}/webhooks/${id}`, { headers: getHeaders() })
+    return response.ok ? await response.json() : null
+  } catch {
+    return null
+  }
+}
+
+/** JSON body of a mutating handler's response, as far as the audit trail reads it. */
+interface HandlerResult {
+  success?: boolean
+  error?: string
+  id?: string
+  [field: string]: unknown
+}
+
+// Response fields kept as the target's state after a mutation. Mutations
+// answer with the updated resource (a deferred resume also with `deferred`);
+// a trigger with its tracking state.
+const SCHEDULE_AFTER_FIELDS: (keyof Schedule | 'deferred')[] = [
+  'id', 'user_id', 'agent_id', 'message', 'cron_expression', 'timezone', 'max_retries', 'retry_delay',
+  'is_active', 'created_at', 'updated_at', 'next_run_time', 'last_run_at', 'last_run_success', 'deferred',
+]
+const WEBHOOK_AFTER_FIELDS: (keyof Webhook)[] = [
+  'id', 'agent_id', 'user_id', 'description', 'webhook_url', 'is_active', 'created_at',
+  'last_triggered_at', 'last_trigger_success', 'trigger_count',
+]
+const TRIGGER_AFTER_FIELDS = ['trigger', 'cooldown']
+
+/** The audit `after` snapshot picked from a handler's result; null for failures and deletes. */
+function pickAfterSnapshot(action: AuditAction, result: HandlerResult): Record<string, unknown> | null {
+  if (result.success !== true || action === 'delete' || action === 'delete-webhook') return null
+  const fields: string[] =
+    action === 'trigger' ? TRIGGER_AFTER_FIELDS : action.endsWith('webhook') ? WEBHOOK_AFTER_FIELDS : SCHEDULE_AFTER_FIELDS
+  return Object.fromEntries(fields.filter(field => field in result).map(field => [field, result[field]]))
+}
+
+/** Run a mutating handler and record it with the target's state before and after. */
+async function withAudit<T extends SchedulerDeleteBody>(
+  request: NextRequest,
+  action: AuditAction,
+  body: T,
+  handler: (body: T) => Promise<Response>
+): Promise<Response> {
+  const targetType: AuditTargetType = action.endsWith('webhook') ? 'webhook' : 'schedule'
+  const targetId: string | null = (targetType === 'webhook' ? body.webhookId : body.scheduleId) || null
+  const before = targetId ? await snapshotTarget(targetType, targetId) : null
+
+  const response = await handler(body)
+
+  let result: HandlerResult = {}
+  try {
+    result = await response.clone().json()
+  } catch {
+    // Non-JSON response — record the status only
+  }
+  const succeeded = result.success === true
+  const createdId = action === 'create' || action === 'create-webhook' ? result.id : undefined
+
+  try {
+    await recordAudit({
+      ...getRequestActor(request),
+      action,
+      target_type: targetType,
+      target_id: targetId ?? createdId ?? null,
+      success: succeeded,
+      status: response.status,
+      error: succeeded ? null : (typeof result.error === 'string' ? result.error : 'Request failed'),
+      before,
+      after: pickAfterSnapshot(action, result),
+    })
+  } catch (auditError) {
+    console.error('Failed to record audit entry:', auditError)
+  }
+  return response
+}
+
+export async function POST(request: NextRequest) {
+  let body: SchedulerPostBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Request body must be JSON' }, { status: 400 })
+  }
+  const limited = checkClientLimit(request, 'Too many scheduler changes')
+  if (limited) return limited
+
+  const action = POST_ACTIONS.find(known => known === body.action) ?? 'create'
+  return withAudit(request, action, body, handlePost)
+}
+
+export async function DELETE(request: NextRequest) {
+  let body: SchedulerDeleteBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Request body must be JSON' }, { status: 400 })
+  }
+  const limited = checkClientLimit(request, 'Too many scheduler changes')
+  if (limited) return limited
+
+  return withAudit(request, body.webhookId ? 'delete-webhook' : 'delete', body, handleDelete)
+}
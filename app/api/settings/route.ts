@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getScheduleSettings, changeScheduleSettings, type ScheduleSettings, type SettingsPatch } from '@/lib/scheduleSettings'
+import { isTradingMode } from '@/lib/marketCalendar'
+import { checkClientLimit } from '@/lib/rateLimiter'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function toResponseSettings(settings: ScheduleSettings) {
+  return {
+    recipient_email: settings.recipient_email ?? null,
+    trading_mode: settings.trading_mode ?? 'always',
+    trading_paused: !!settings.trading_paused,
+    base_cron: settings.base_cron ?? null,
+    updated_at: settings.updated_at ?? null,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GET — settings stored for a schedule
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const scheduleId = request.nextUrl.searchParams.get('scheduleId')
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+    }
+
+    const settings = await getScheduleSettings(scheduleId)
+    return NextResponse.json({
+      success: true,
+      scheduleId,
+      settings: toResponseSettings(settings),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT — save settings and push them into the schedule upstream (audited and
+// rate limited like /api/scheduler changes)
+// ---------------------------------------------------------------------------
+export async function PUT(request: NextRequest) {
+  try {
+    const limited = checkClientLimit(request)
+    if (limited) return limited
+
+    const body = await request.json()
+    const { scheduleId } = body
+    const patch: SettingsPatch = {}
+
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
+    }
+    if (body.recipient_email !== undefined) {
+      const recipientEmail = typeof body.recipient_email === 'string' ? body.recipient_email.trim() : ''
+      if (!EMAIL_PATTERN.test(recipientEmail)) {
+        return NextResponse.json({ success: false, error: 'A valid recipient_email is required' }, { status: 400 })
+      }
+      patch.recipient_email = recipientEmail
+    }
+    if (body.trading_mode !== undefined) {
+      if (!isTradingMode(body.trading_mode)) {
+        return NextResponse.json(
+          { success: false, error: 'trading_mode must be always, market_hours or extended_hours' },
+          { status: 400 }
+        )
+      }
+      patch.trading_mode = body.trading_mode
+    }
+    if (Object.keys(patch).length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Provide recipient_email and/or trading_mode' },
+        { status: 400 }
+      )
+    }
+
+    const { settings, schedule, ...result } = await changeScheduleSettings(request, 'update-settings', scheduleId, patch)
+
+    if (!result.success || !schedule) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Settings saved but the schedule could not be updated: ${result.error}`,
+          details: result.details,
+          ...(result.schema_error && { schema_error: result.schema_error }),
+        },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      scheduleId,
+      settings: toResponseSettings(settings),
+      schedule,
+      // The schedule message now carries the recipient, so every run emails it
+      delivered: !!settings.recipient_email && schedule.message.includes(settings.recipient_email),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readStore, updateStore } from '@/lib/serverStore'
+import { getAgentSchedules, resolveAgentRef } from '@/lib/registry'
+
+const STORE_NAME = 'watchlist'
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9.\-]{0,9}$/
+
+interface WatchlistEntry {
+  symbol: string
+  schedule_id: string
+  agent_id: string
+  created_at: string
+}
+
+// Seeded with the schedule the dashboard originally shipped with
+const SEED_SCHEDULE = getAgentSchedules('Stock Alert Agent')[0]
+const DEFAULT_WATCHLIST: WatchlistEntry[] = SEED_SCHEDULE
+  ? [
+      {
+        symbol: 'TSLA',
+        schedule_id: SEED_SCHEDULE.schedule_id,
+        agent_id: SEED_SCHEDULE.agent_id,
+        created_at: '2026-02-12T12:30:00.000Z',
+      },
+    ]
+  : []
+
+function normalizeSymbol(symbol: unknown): string | null {
+  if (typeof symbol !== 'string') return null
+  const normalized = symbol.trim().toUpperCase()
+  return SYMBOL_PATTERN.test(normalized) ? normalized : null
+}
+
+// ---------------------------------------------------------------------------
+// GET — list watchlist entries
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const entries = await readStore<WatchlistEntry[]>(STORE_NAME, DEFAULT_WATCHLIST)
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — add a symbol → schedule mapping
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const symbol = normalizeSymbol(body.symbol)
+    const { schedule_id } = body
+    // Accepts agent_id or an agent name from the registry
+    const { agentId: agent_id, error: agentError } = resolveAgentRef(body)
+
+    if (!symbol) {
+      return NextResponse.json({ success: false, error: 'A valid ticker symbol is required' }, { status: 400 })
+    }
+    if (agentError) {
+      return NextResponse.json({ success: false, error: agentError }, { status: 400 })
+    }
+    if (!schedule_id || !agent_id) {
+      return NextResponse.json({ success: false, error: 'schedule_id and agent_id (or agent) are required' }, { status: 400 })
+    }
+
+    let duplicate = false
+    const entries = await updateStore<WatchlistEntry[]>(STORE_NAME, DEFAULT_WATCHLIST, (current) => {
+      if (current.some(e => e.symbol === symbol)) {
+        duplicate = true
+        return current
+      }
+      return [...current, { symbol, schedule_id, agent_id, created_at: new Date().toISOString() }]
+    })
+
+    if (duplicate) {
+      return NextResponse.json({ success: false, error: `${symbol} is already on the watchlist` }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a symbol (the schedule itself is left untouched)
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const symbol = normalizeSymbol(body.symbol)
+
+    if (!symbol) {
+      return NextResponse.json({ success: false, error: 'symbol is required' }, { status: 400 })
+    }
+
+    const entries = await updateStore<WatchlistEntry[]>(STORE_NAME, DEFAULT_WATCHLIST, (current) =>
+      current.filter(e => e.symbol !== symbol)
+    )
+
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,30 +1,56 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
 import { callAIAgent } from '@/lib/aiAgent'
 import {
   getSchedule,
   getScheduleLogs,
   pauseSchedule,
   resumeSchedule,
-  triggerScheduleNow,
   cronToHuman,
-  type ExecutionLog,
   type Schedule
 } from '@/lib/scheduler'
+import {
+  toAlertHistoryItem,
+  formatCurrency,
+  formatPercentage,
+  formatTimestamp,
+  type StockAlertData,
+  type AlertHistoryItem
+} from '@/lib/stockAlert'
+import { useWatchlist, type WatchlistEntry } from '@/lib/watchlist'
+import type { BulkAction, BulkItemResult } from '@/lib/scheduler'
+import { buildTemplateSchedule, type ScheduleTemplate } from '@/lib/scheduleTemplates'
+import { fetchAlertRules, type AlertRule } from '@/lib/alertRules'
+import { getAgent, listAgents } from '@/lib/registry'
+import { fetchAlertSettings, saveAlertSettings } from '@/lib/alertSettings'
+import { getMarketStatus, getNextTradingRuns, type TradingMode } from '@/lib/marketCalendar'
+import { useScheduleEvents } from '@/lib/scheduleEvents'
+import { WatchlistOverview } from '@/components/WatchlistOverview'
+import { PriceChart } from '@/components/PriceChart'
+import { AlertRulesEditor } from '@/components/AlertRulesEditor'
+import { AlertHistoryTable } from '@/components/AlertHistoryTable'
+import { ExportHistoryButton } from '@/components/ExportHistoryButton'
+import { ScheduleEditor } from '@/components/ScheduleEditor'
+import { TradingHoursSettings, describeMarketStatus } from '@/components/TradingHoursSettings'
+import { WebhooksPanel } from '@/components/WebhooksPanel'
+import { ReliabilityPanel } from '@/components/ReliabilityPanel'
+import { TriggerButton } from '@/components/TriggerButton'
+import { ScheduleManager } from '@/components/ScheduleManager'
+import { ActivityLog } from '@/components/ActivityLog'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
 import { Badge } from '@/components/ui/badge'
-import { ScrollArea } from '@/components/ui/scroll-area'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { Loader2, Settings, TrendingUp, TrendingDown, Play, RefreshCw, Clock, Mail, Activity } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Loader2, Settings, TrendingUp, TrendingDown, RefreshCw, Clock, Mail, Activity, CheckCircle2, AlertTriangle } from 'lucide-react'
 
 // Constants
-const AGENT_ID = '698e0acc3e19f69d1aa0c41d'
-const SCHEDULE_ID = '698e0ee2ebe6fd87d1dcc1be'
+const AGENT_NAME = 'Stock Alert Agent'
 
 // Theme variables
 const THEME_VARS = {
@@ -38,112 +64,6 @@ const THEME_VARS = {
   '--muted': '220 15% 20%',
 } as React.CSSProperties
 
-// Types
-interface StockAlertData {
-  stock_symbol?: string
-  current_price?: number
-  daily_change_amount?: number
-  daily_change_percentage?: number
-  timestamp?: string
-  market_status?: string
-  email_sent?: boolean
-  recipient_email?: string
-}
-
-interface AlertHistoryItem {
-  id: string
-  executed_at: string
-  success: boolean
-  data: StockAlertData | null
-  error_message?: string
-}
-
-// Helper function to parse execution log response
-function parseExecutionData(log: ExecutionLog): StockAlertData | null {
-  try {
-    if (!log.response_output) return null
-
-    // Try parsing as JSON
-    let parsed: any
-    try {
-      parsed = JSON.parse(log.response_output)
-    } catch {
-      // If parsing fails, response_output might already be an object
-      parsed = log.response_output
-    }
-
-    // Try multiple accessor paths based on agent type
-    let result = null
-
-    // Path 1: Direct result (for some agent types)
-    if (parsed?.stock_symbol !== undefined) {
-      result = parsed
-    }
-    // Path 2: result.response.result (common for JSON agents)
-    else if (parsed?.result?.response?.result) {
-      result = parsed.result.response.result
-    }
-    // Path 3: result.result (alternative path)
-    else if (parsed?.result?.result) {
-      result = parsed.result.result
-    }
-    // Path 4: Just result (simple path)
-    else if (parsed?.result) {
-      result = parsed.result
-    }
-    // Path 5: response.result
-    else if (parsed?.response?.result) {
-      result = parsed.response.result
-    }
-
-    if (!result || typeof result !== 'object') return null
-
-    return {
-      stock_symbol: result.stock_symbol,
-      current_price: result.current_price,
-      daily_change_amount: result.daily_change_amount,
-      daily_change_percentage: result.daily_change_percentage,
-      timestamp: result.timestamp,
-      market_status: result.market_status,
-      email_sent: result.email_sent,
-      recipient_email: result.recipient_email,
-    }
-  } catch (error) {
-    console.error('Error parsing execution data:', error)
-    return null
-  }
-}
-
-// Helper function to format currency
-function formatCurrency(value: number | undefined): string {
-  if (value === undefined || value === null) return '$---.--'
-  return `$${value.toFixed(2)}`
-}
-
-// Helper function to format percentage
-function formatPercentage(value: number | undefined): string {
-  if (value === undefined || value === null) return '--.--'
-  const sign = value >= 0 ? '+' : ''
-  return `${sign}${value.toFixed(2)}%`
-}
-
-// Helper function to format timestamp
-function formatTimestamp(timestamp: string | undefined): string {
-  if (!timestamp) return 'Never'
-  try {
-    const date = new Date(timestamp)
-    return date.toLocaleString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-    })
-  } catch {
-    return timestamp
-  }
-}
-
 // Helper function to calculate next run countdown
 function useCountdown(nextRunTime: string | null | undefined) {
   const [countdown, setCountdown] = useState<string>('Calculating...')
@@ -191,9 +111,11 @@ function useCountdown(nextRunTime: string | null | undefined) {
 }
 
 export default function Home() {
+  // Resolved on render so a missing registry entry shows an error instead of failing the import
+  const agentId = useMemo(() => getAgent(AGENT_NAME)?.agent_id ?? null, [])
+
   // State
   const [schedule, setSchedule] = useState<Schedule | null>(null)
-  const [alertHistory, setAlertHistory] = useState<AlertHistoryItem[]>([])
   const [latestAlert, setLatestAlert] = useState<StockAlertData | null>(null)
   const [loading, setLoading] = useState(false)
   const [loadingSchedule, setLoadingSchedule] = useState(true)
@@ -201,42 +123,58 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null)
   const [settingsOpen, setSettingsOpen] = useState(false)
   const [recipientEmail, setRecipientEmail] = useState('')
+  const [savingSettings, setSavingSettings] = useState(false)
+  const [settingsStatus, setSettingsStatus] = useState<string | null>(null)
   const [sampleMode, setSampleMode] = useState(false)
-
-  const countdown = useCountdown(schedule?.next_run_time)
-  const pollIntervalRef = useRef<NodeJS.Timeout>()
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([])
+  const [tradingMode, setTradingMode] = useState<TradingMode>('always')
+  const [tradingPaused, setTradingPaused] = useState(false)
+  const [baseCron, setBaseCron] = useState<string | null>(null)
+
+  const watchlist = useWatchlist()
+  const activeEntry = watchlist.entries.find(e => e.symbol === selectedSymbol) ?? null
+  const symbolsBySchedule = useMemo(
+    () => Object.fromEntries(watchlist.entries.map(e => [e.schedule_id, e.symbol])),
+    [watchlist.entries]
+  )
+  const scheduleId = activeEntry?.schedule_id ?? null
+  const activeSymbol = activeEntry?.symbol ?? 'Stock'
+
+  // Count down to the next run that falls inside the schedule's trading hours
+  const nextTradingRun = useMemo(() => {
+    if (!schedule || tradingMode === 'always') return schedule?.next_run_time
+    const [next] = getNextTradingRuns(schedule.cron_expression, schedule.timezone, tradingMode, 1)
+    return next ? next.toISOString() : null
+  }, [schedule, tradingMode])
+  const countdown = useCountdown(nextTradingRun)
+
+  // The selected schedule's cadence for inline copy, e.g. "every 5 minutes (America/New_York)"
+  const cadence = useMemo(() => {
+    if (!schedule?.cron_expression) return null
+    const described = cronToHuman(schedule.cron_expression)
+    return `${described.charAt(0).toLowerCase()}${described.slice(1)} (${schedule.timezone})`
+  }, [schedule])
 
   // Fetch schedule data
-  const fetchSchedule = async () => {
-    const result = await getSchedule(SCHEDULE_ID)
+  const fetchSchedule = useCallback(async () => {
+    if (!scheduleId) return
+    const result = await getSchedule(scheduleId)
     if (result.success && result.schedule) {
       setSchedule(result.schedule)
     } else {
       setError(result.error ?? 'Failed to load schedule')
     }
     setLoadingSchedule(false)
-  }
+  }, [scheduleId])
 
   // Fetch alert history
-  const fetchHistory = async () => {
-    const result = await getScheduleLogs(SCHEDULE_ID, { limit: 50 })
+  const fetchHistory = useCallback(async () => {
+    if (!scheduleId) return
+    const result = await getScheduleLogs(scheduleId, { limit: 50 })
     if (result.success) {
-      const history = (result.executions ?? []).map(log => {
-        const parsedData = parseExecutionData(log)
-        // Log for debugging
-        if (log.response_output && !parsedData) {
-          console.log('Failed to parse execution log:', log.response_output)
-        }
-        return {
-          id: log.id,
-          executed_at: log.executed_at,
-          success: log.success,
-          data: parsedData,
-          error_message: log.error_message ?? undefined,
-        }
-      })
-      setAlertHistory(history)
-
+      const history = (result.executions ?? []).map(toAlertHistoryItem)
       // Set latest alert from first successful execution
       const latest = history.find(h => h.success && h.data)
       if (latest?.data) {
@@ -246,19 +184,46 @@ export default function Home() {
       console.error('Failed to fetch schedule logs:', result.error)
     }
     setLoadingHistory(false)
+  }, [scheduleId])
+
+  // Refresh the selected schedule and the overview grid
+  const refreshAll = () => {
+    fetchSchedule()
+    fetchHistory()
+    setRefreshKey(k => k + 1)
   }
 
+  // Live updates: the server pushes schedule state changes and new executions
+  const liveStatus = useScheduleEvents(scheduleId, {
+    onSchedule: (next) => {
+      setSchedule(next)
+      // The trading-hours gate pauses and resumes schedules at session boundaries
+      fetchAlertSettings(next.id).then(result => {
+        if (result.success && result.settings) setTradingPaused(result.settings.trading_paused)
+      })
+    },
+    onExecution: (log) => {
+      const item = toAlertHistoryItem(log)
+      if (item.success && item.data) setLatestAlert(item.data)
+      setRefreshKey(k => k + 1)
+    },
+    // Catch up on anything missed while the tab was hidden
+    onResume: refreshAll,
+  })
+
   // Toggle schedule active state
   const toggleSchedule = async () => {
-    if (!schedule) return
+    if (!schedule || !scheduleId) return
     setLoading(true)
     setError(null)
 
-    const result = schedule.is_active
-      ? await pauseSchedule(SCHEDULE_ID)
-      : await resumeSchedule(SCHEDULE_ID)
+    // A schedule waiting for its trading session counts as on
+    const result = schedule.is_active || tradingPaused
+      ? await pauseSchedule(scheduleId)
+      : await resumeSchedule(scheduleId)
 
     if (result.success) {
+      setTradingPaused('deferred' in result && !!result.deferred)
       await fetchSchedule()
     } else {
       setError(result.error ?? 'Failed to toggle schedule')
@@ -266,58 +231,124 @@ export default function Home() {
     setLoading(false)
   }
 
-  // Manual trigger
-  const triggerManually = async () => {
-    setLoading(true)
-    setError(null)
-
-    const result = await triggerScheduleNow(SCHEDULE_ID)
+  // Watchlist: add a symbol (creates its own schedule, optionally from a template)
+  const addSymbol = async (symbol: string, template: ScheduleTemplate | null) => {
+    const normalized = symbol.trim().toUpperCase()
+    const result = await watchlist.add(symbol, agentId, template ? buildTemplateSchedule(template, normalized) : undefined)
     if (result.success) {
-      // Wait a moment then refresh data
-      setTimeout(() => {
-        fetchHistory()
-        fetchSchedule()
-      }, 2000)
-    } else {
-      setError(result.error ?? 'Failed to trigger alert')
+      setSelectedSymbol(normalized)
+      // Templates may also ask for a trading-hours mode on the new schedule;
+      // without it the template's cron would also fire outside those hours
+      const entry = result.entries.find(e => e.symbol === normalized)
+      if (entry && template?.trading_mode) {
+        const saved = await saveAlertSettings(entry.schedule_id, { trading_mode: template.trading_mode })
+        if (!saved.success) {
+          await pauseSchedule(entry.schedule_id)
+          setError(`${saved.error ?? 'Failed to apply the template trading hours'}. The schedule was paused; set its trading hours in Settings before resuming.`)
+        }
+      }
+    }
+    return result
+  }
+
+  // Watchlist: remove a symbol and its schedule
+  const removeSymbol = async (entry: WatchlistEntry) => {
+    if (!window.confirm(`Stop tracking ${entry.symbol}? Its schedule will be deleted.`)) return
+    const result = await watchlist.remove(entry, { deleteSchedule: true })
+    if (!result.success) {
+      setError(result.error ?? 'Failed to remove symbol')
     }
-    setLoading(false)
   }
 
-  // Save email settings
-  const saveSettings = () => {
+  // Bulk schedule changes: drop deleted schedules from the watchlist, then refresh
+  const handleBulkChange = async (action: BulkAction, results: BulkItemResult[]) => {
+    if (action === 'delete') {
+      const deleted = new Set(results.filter(r => r.success).map(r => r.scheduleId))
+      for (const entry of watchlist.entries.filter(e => deleted.has(e.schedule_id))) {
+        await watchlist.remove(entry, { deleteSchedule: false })
+      }
+    }
+    refreshAll()
+  }
+
+  // Save email settings server-side and push the recipient to the schedule
+  const saveSettings = async () => {
+    if (!scheduleId) return
     if (!recipientEmail || !recipientEmail.includes('@')) {
       setError('Please enter a valid email address')
       return
     }
-    localStorage.setItem('tesla_alert_email', recipientEmail)
-    setSettingsOpen(false)
+    setSavingSettings(true)
+    setSettingsStatus(null)
     setError(null)
+
+    const result = await saveAlertSettings(scheduleId, { recipient_email: recipientEmail })
+    if (result.success) {
+      if (result.schedule) setSchedule(result.schedule)
+      setSettingsStatus(
+        result.delivered
+          ? `Schedule updated — alerts will be sent to ${result.settings?.recipient_email}`
+          : 'Settings saved, but the schedule message does not include the new address yet'
+      )
+    } else {
+      setError(result.error ?? 'Failed to save settings')
+    }
+    setSavingSettings(false)
   }
 
   // Initial data load
+  const { fetchWatchlist, entries: watchlistEntries } = watchlist
   useEffect(() => {
-    fetchSchedule()
-    fetchHistory()
+    fetchWatchlist()
+  }, [fetchWatchlist])
+
+  // Keep the selection valid as the watchlist changes
+  useEffect(() => {
+    setSelectedSymbol(current => {
+      if (watchlistEntries.length === 0) return null
+      return watchlistEntries.some(e => e.symbol === current) ? current : watchlistEntries[0].symbol
+    })
+  }, [watchlistEntries])
 
-    // Load saved email
-    const savedEmail = localStorage.getItem('tesla_alert_email')
-    if (savedEmail) {
-      setRecipientEmail(savedEmail)
+  // Load the selected symbol's schedule and history
+  useEffect(() => {
+    setSchedule(null)
+    setLatestAlert(null)
+    setAlertRules([])
+    setRecipientEmail('')
+    setTradingMode('always')
+    setTradingPaused(false)
+    setBaseCron(null)
+    setSettingsStatus(null)
+    if (!scheduleId) {
+      setLoadingSchedule(false)
+      setLoadingHistory(false)
+      return
     }
 
-    // Poll for updates every 30 seconds
-    pollIntervalRef.current = setInterval(() => {
-      fetchSchedule()
-      fetchHistory()
-    }, 30000)
+    setLoadingSchedule(true)
+    setLoadingHistory(true)
+    fetchSchedule()
+    fetchHistory()
+    fetchAlertRules(scheduleId).then(result => {
+      if (result.success) setAlertRules(result.rules)
+    })
+    fetchAlertSettings(scheduleId).then(result => {
+      if (!result.success || !result.settings) return
+      if (result.settings.recipient_email) setRecipientEmail(result.settings.recipient_email)
+      setTradingMode(result.settings.trading_mode ?? 'always')
+      setTradingPaused(result.settings.trading_paused)
+      setBaseCron(result.settings.base_cron)
+    })
+  }, [scheduleId, fetchSchedule, fetchHistory])
 
-    return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current)
-      }
-    }
-  }, [])
+  // An edited cron becomes the schedule's base cron
+  const handleScheduleSaved = (next: Schedule) => {
+    setSchedule(next)
+    fetchAlertSettings(next.id).then(result => {
+      if (result.success && result.settings) setBaseCron(result.settings.base_cron)
+    })
+  }
 
   // Sample data
   const sampleAlerts: AlertHistoryItem[] = [
@@ -398,7 +429,29 @@ export default function Home() {
     },
   ]
 
-  const displayHistory = sampleMode ? sampleAlerts : alertHistory
+  if (!agentId) {
+    const known = listAgents().map(agent => agent.name).join(', ') || 'none'
+    return (
+      <div style={THEME_VARS} className="min-h-screen bg-background text-foreground flex items-center justify-center p-4">
+        <Card className="max-w-md w-full bg-card border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="w-5 h-5" />
+              Agent not configured
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm text-muted-foreground">
+            <p>
+              &quot;{AGENT_NAME}&quot; is not declared in workflow_state.json, so alerts can&apos;t be scheduled.
+              Add it to the agents list there and reload.
+            </p>
+            <p className="text-xs">Registered agents: {known}</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   const displayLatest = sampleMode
     ? sampleAlerts[0].data
     : latestAlert
@@ -411,9 +464,25 @@ export default function Home() {
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <Activity className="w-6 h-6 text-primary" />
-              <h1 className="text-xl font-semibold">Tesla Stock Price Alert</h1>
+              <h1 className="text-xl font-semibold">Stock Price Alerts</h1>
             </div>
             <div className="flex items-center gap-4">
+              <Select
+                value={selectedSymbol ?? undefined}
+                onValueChange={setSelectedSymbol}
+                disabled={watchlist.entries.length === 0}
+              >
+                <SelectTrigger className="h-9 w-32 bg-background border-border">
+                  <SelectValue placeholder="Symbol" />
+                </SelectTrigger>
+                <SelectContent>
+                  {watchlist.entries.map((entry) => (
+                    <SelectItem key={entry.symbol} value={entry.symbol}>
+                      {entry.symbol}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <div className="flex items-center gap-2">
                 <Label htmlFor="sample-mode" className="text-sm text-muted-foreground cursor-pointer">
                   Sample Data
@@ -430,37 +499,83 @@ export default function Home() {
                     <Settings className="w-5 h-5" />
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="bg-card border-border">
+                <DialogContent className="bg-card border-border sm:max-w-xl">
                   <DialogHeader>
                     <DialogTitle>Alert Settings</DialogTitle>
                   </DialogHeader>
-                  <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="email">Email Address</Label>
-                      <Input
-                        id="email"
-                        type="email"
-                        placeholder="your.email@example.com"
-                        value={recipientEmail}
-                        onChange={(e) => setRecipientEmail(e.target.value)}
-                        className="bg-background border-border"
-                      />
-                      <p className="text-xs text-muted-foreground">
-                        You'll receive Tesla stock price alerts at this email address every 5 minutes.
-                      </p>
-                    </div>
-                    {error && (
-                      <div className="text-sm text-destructive">{error}</div>
-                    )}
-                    <div className="flex gap-2 justify-end">
-                      <Button variant="outline" onClick={() => setSettingsOpen(false)}>
-                        Cancel
-                      </Button>
-                      <Button onClick={saveSettings} className="bg-primary text-white hover:bg-primary/90">
-                        Save Settings
-                      </Button>
-                    </div>
-                  </div>
+                  <Tabs defaultValue="email" className="py-2">
+                    <TabsList>
+                      <TabsTrigger value="email">Email</TabsTrigger>
+                      <TabsTrigger value="rules">Alert Rules</TabsTrigger>
+                      <TabsTrigger value="schedule">Schedule</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="email">
+                      <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="email">Email Address</Label>
+                          <Input
+                            id="email"
+                            type="email"
+                            placeholder="your.email@example.com"
+                            value={recipientEmail}
+                            onChange={(e) => {
+                              setRecipientEmail(e.target.value)
+                              setSettingsStatus(null)
+                            }}
+                            className="bg-background border-border"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            You&apos;ll receive {activeSymbol} stock price alerts at this email address {cadence ?? 'on its schedule'}.
+                          </p>
+                        </div>
+                        {error && (
+                          <div className="text-sm text-destructive">{error}</div>
+                        )}
+                        {settingsStatus && (
+                          <div className="flex items-center gap-2 text-sm text-accent">
+                            <CheckCircle2 className="w-4 h-4" />
+                            {settingsStatus}
+                          </div>
+                        )}
+                        <div className="flex gap-2 justify-end">
+                          <Button variant="outline" onClick={() => setSettingsOpen(false)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            onClick={saveSettings}
+                            disabled={savingSettings || !scheduleId}
+                            className="bg-primary text-white hover:bg-primary/90"
+                          >
+                            {savingSettings && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                            Save Settings
+                          </Button>
+                        </div>
+                      </div>
+                    </TabsContent>
+                    <TabsContent value="rules" className="py-4">
+                      <AlertRulesEditor scheduleId={scheduleId} onSaved={setAlertRules} />
+                    </TabsContent>
+                    <TabsContent value="schedule" className="py-4">
+                      <div className="space-y-6">
+                        <TradingHoursSettings
+                          schedule={schedule}
+                          mode={tradingMode}
+                          onSaved={(mode, updated) => {
+                            setTradingMode(mode)
+                            if (updated) setSchedule(updated)
+                          }}
+                        />
+                        <div className="border-t border-border pt-4">
+                          <ScheduleEditor
+                            schedule={schedule}
+                            baseCron={baseCron}
+                            tradingMode={tradingMode}
+                            onSaved={handleScheduleSaved}
+                          />
+                        </div>
+                      </div>
+                    </TabsContent>
+                  </Tabs>
                 </DialogContent>
               </Dialog>
             </div>
@@ -470,6 +585,33 @@ export default function Home() {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-6">
+        <WatchlistOverview
+          entries={watchlist.entries}
+          selectedSymbol={selectedSymbol}
+          onSelect={setSelectedSymbol}
+          onAdd={addSymbol}
+          onRemove={removeSymbol}
+          refreshKey={refreshKey}
+          busy={watchlist.loading}
+          className="mb-6"
+        />
+
+        <PriceChart
+          scheduleId={scheduleId}
+          symbol={activeEntry?.symbol}
+          refreshKey={refreshKey}
+          sampleItems={sampleMode ? sampleAlerts : undefined}
+          className="mb-6"
+        />
+
+        <ReliabilityPanel
+          agentId={agentId}
+          scheduleId={scheduleId}
+          symbol={activeEntry?.symbol}
+          refreshKey={refreshKey}
+          className="mb-6"
+        />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Left Column - Control Panel */}
           <div className="space-y-6">
@@ -496,12 +638,20 @@ export default function Home() {
                             variant={schedule?.is_active ? 'default' : 'secondary'}
                             className={schedule?.is_active ? 'bg-accent text-white' : 'bg-muted'}
                           >
-                            {schedule?.is_active ? 'Active' : 'Paused'}
+                            {schedule?.is_active ? 'Active' : tradingPaused ? 'Waiting for market hours' : 'Paused'}
                           </Badge>
+                          {liveStatus === 'live' ? (
+                            <span className="flex items-center gap-1 text-xs text-accent">
+                              <span className="w-1.5 h-1.5 rounded-full bg-accent animate-pulse" />
+                              Live
+                            </span>
+                          ) : liveStatus === 'connecting' && (
+                            <span className="text-xs text-muted-foreground">Connecting…</span>
+                          )}
                         </div>
                       </div>
                       <Switch
-                        checked={schedule?.is_active ?? false}
+                        checked={(schedule?.is_active || tradingPaused) ?? false}
                         onCheckedChange={toggleSchedule}
                         disabled={loading || !schedule}
                       />
@@ -515,10 +665,15 @@ export default function Home() {
                         </div>
                       </div>
                       <div className="space-y-1">
-                        <div className="text-xs text-muted-foreground">Next Alert</div>
+                        <div className="text-xs text-muted-foreground">
+                          {tradingMode === 'always' ? 'Next Alert' : 'Next Trading Run'}
+                        </div>
                         <div className="text-sm font-medium">
-                          {schedule?.is_active ? countdown : 'Paused'}
+                          {schedule?.is_active || tradingPaused ? countdown : 'Paused'}
                         </div>
+                        {tradingMode !== 'always' && (
+                          <div className="text-xs text-muted-foreground">{describeMarketStatus(getMarketStatus())}</div>
+                        )}
                       </div>
                     </div>
 
@@ -529,19 +684,11 @@ export default function Home() {
                       </div>
                     </div>
 
-                    <Button
-                      onClick={triggerManually}
+                    <TriggerButton
+                      scheduleId={scheduleId}
                       disabled={loading}
-                      className="w-full bg-primary text-white hover:bg-primary/90"
-                      size="sm"
-                    >
-                      {loading ? (
-                        <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                      ) : (
-                        <Play className="w-4 h-4 mr-2" />
-                      )}
-                      Trigger Now
-                    </Button>
+                      onComplete={refreshAll}
+                    />
                   </>
                 )}
               </CardContent>
@@ -567,7 +714,7 @@ export default function Home() {
                         : 'Enable the schedule to start receiving alerts, or click "Trigger Now" for immediate data.'}
                     </p>
                     <p className="text-xs text-muted-foreground mt-2">
-                      Tip: Toggle "Sample Data" above to see how the dashboard will look.
+                      Tip: Toggle &quot;Sample Data&quot; above to see how the dashboard will look.
                     </p>
                   </div>
                 ) : (
@@ -577,7 +724,7 @@ export default function Home() {
                         {formatCurrency(displayLatest.current_price)}
                       </div>
                       <Badge variant="outline" className="border-border text-xs">
-                        {displayLatest.stock_symbol ?? 'TSLA'}
+                        {displayLatest.stock_symbol ?? activeEntry?.symbol}
                       </Badge>
                     </div>
 
@@ -647,106 +794,66 @@ export default function Home() {
                     </Badge>
                   </div>
                   <div className="text-xs text-muted-foreground">
-                    Fetches real-time Tesla stock data and sends email alerts every 5 minutes
+                    Fetches real-time {activeSymbol} stock data and sends email alerts {cadence ?? 'on a schedule'}
                   </div>
                 </div>
               </CardContent>
             </Card>
+
+            <WebhooksPanel agentId={agentId} />
           </div>
 
-          {/* Right Column - Alert History */}
+          {/* Right Column - Alert History / Activity */}
           <Card className="bg-card border-border border rounded-sm">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="text-base font-medium">Alert History</CardTitle>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => {
-                    fetchHistory()
-                    fetchSchedule()
-                  }}
-                  disabled={loadingHistory}
-                >
-                  <RefreshCw className={`w-4 h-4 ${loadingHistory ? 'animate-spin' : ''}`} />
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {loadingHistory && !sampleMode ? (
-                <div className="flex items-center justify-center py-12">
-                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
-                </div>
-              ) : !Array.isArray(displayHistory) || displayHistory.length === 0 ? (
-                <div className="text-center py-12 text-muted-foreground text-sm">
-                  <Mail className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                  <p>No alerts sent yet</p>
-                  <p className="text-xs mt-1">Alerts will appear here once the schedule runs</p>
-                </div>
-              ) : (
-                <ScrollArea className="h-[600px] pr-4">
-                  <div className="space-y-2">
-                    {displayHistory.map((alert) => {
-                      const data = alert.data
-                      const isPositive = (data?.daily_change_amount ?? 0) >= 0
-
-                      return (
-                        <div
-                          key={alert.id}
-                          className="p-3 rounded-sm border border-border bg-background/50 hover:bg-background transition-colors"
-                        >
-                          <div className="flex items-start justify-between gap-4">
-                            <div className="flex-1 space-y-1 min-w-0">
-                              <div className="flex items-center gap-2">
-                                <div className="text-sm font-medium">
-                                  {formatCurrency(data?.current_price)}
-                                </div>
-                                {data && (
-                                  <Badge
-                                    variant="outline"
-                                    className={
-                                      isPositive
-                                        ? 'border-accent text-accent text-xs'
-                                        : 'border-destructive text-destructive text-xs'
-                                    }
-                                  >
-                                    {formatPercentage(data.daily_change_percentage)}
-                                  </Badge>
-                                )}
-                              </div>
-                              <div className="text-xs text-muted-foreground">
-                                {formatTimestamp(alert.executed_at)}
-                              </div>
-                            </div>
-                            <div className="flex flex-col items-end gap-1">
-                              {data && (
-                                <div className={`text-sm font-medium ${isPositive ? 'text-accent' : 'text-destructive'}`}>
-                                  {isPositive ? '+' : '-'}
-                                  {formatCurrency(Math.abs(data.daily_change_amount ?? 0))}
-                                </div>
-                              )}
-                              <Badge
-                                variant={alert.success && data?.email_sent ? 'default' : 'secondary'}
-                                className={
-                                  alert.success && data?.email_sent
-                                    ? 'bg-accent text-white text-xs'
-                                    : 'bg-muted text-xs'
-                                }
-                              >
-                                {alert.success && data?.email_sent ? 'Sent' : 'Failed'}
-                              </Badge>
-                            </div>
-                          </div>
-                        </div>
-                      )
-                    })}
+            <Tabs defaultValue="history">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <TabsList>
+                    <TabsTrigger value="history">Alert History</TabsTrigger>
+                    <TabsTrigger value="activity">Activity</TabsTrigger>
+                  </TabsList>
+                  <div className="flex items-center gap-1">
+                    <ExportHistoryButton scheduleId={scheduleId} disabled={sampleMode} />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={refreshAll}
+                      disabled={loadingHistory}
+                    >
+                      <RefreshCw className={`w-4 h-4 ${loadingHistory ? 'animate-spin' : ''}`} />
+                    </Button>
                   </div>
-                </ScrollArea>
-              )}
-            </CardContent>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <TabsContent value="history" className="mt-0">
+                  <AlertHistoryTable
+                    scheduleId={scheduleId}
+                    refreshKey={refreshKey}
+                    rules={alertRules}
+                    sampleItems={sampleMode ? sampleAlerts : undefined}
+                  />
+                </TabsContent>
+                <TabsContent value="activity" className="mt-0">
+                  <ActivityLog
+                    scheduleId={scheduleId}
+                    symbolsBySchedule={symbolsBySchedule}
+                    refreshKey={refreshKey}
+                  />
+                </TabsContent>
+              </CardContent>
+            </Tabs>
           </Card>
         </div>
 
+        <ScheduleManager
+          agentId={agentId}
+          symbolsBySchedule={symbolsBySchedule}
+          refreshKey={refreshKey}
+          onChanged={handleBulkChange}
+          className="mt-6"
+        />
+
         {/* Error Display */}
         {error && (
           <div className="mt-4 p-4 rounded-sm bg-destructive/10 border border-destructive text-destructive text-sm">
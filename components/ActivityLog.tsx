@@ -0,0 +1,273 @@
+'use client'
+
+import * as React from 'react'
+import {
+  fetchActivity,
+  getActorName,
+  setActorName,
+  AUDIT_ACTION_LABELS,
+  type AuditAction,
+  type AuditEntry,
+} from '@/lib/activity'
+import { formatTimestamp } from '@/lib/stockAlert'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { Loader2, ChevronDown, ChevronRight, UserRound } from 'lucide-react'
+
+interface ActivityLogProps {
+  scheduleId: string | null
+  /** Watchlist symbol per schedule ID, used to label targets. */
+  symbolsBySchedule?: Record<string, string>
+  refreshKey?: number
+  className?: string
+}
+
+const PAGE_SIZE = 25
+const ALL = 'all'
+
+type Scope = 'schedule' | 'all'
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+/** Fields whose value differs between the before and after snapshots. */
+function diffSnapshots(entry: AuditEntry): { field: string; before: unknown; after: unknown }[] {
+  const before = entry.before ?? {}
+  const after = entry.after ?? {}
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }))
+}
+
+function EntryDetails({ entry }: { entry: AuditEntry }) {
+  if (!entry.success) {
+    return <div className="text-xs text-destructive break-words">{entry.error ?? 'Request failed'} (HTTP {entry.status})</div>
+  }
+  if (!entry.before && !entry.after) {
+    return <div className="text-xs text-muted-foreground">No state recorded</div>
+  }
+
+  // Deletes only have a before snapshot, creates and triggers only an after
+  const changes = entry.before && entry.after ? diffSnapshots(entry) : null
+  if (changes && changes.length === 0) {
+    return <div className="text-xs text-muted-foreground">No fields changed</div>
+  }
+
+  const rows = changes ?? Object.entries(entry.after ?? entry.before ?? {}).map(([field, value]) => ({
+    field,
+    before: entry.after ? undefined : value,
+    after: entry.after ? value : undefined,
+  }))
+
+  return (
+    <div className="space-y-1">
+      {rows.map(({ field, before, after }) => (
+        <div key={field} className="grid grid-cols-[8rem_1fr] gap-2 text-xs">
+          <span className="font-mono text-muted-foreground truncate">{field}</span>
+          <span className="break-words">
+            {before !== undefined && <span className="text-destructive line-through mr-2">{formatValue(before)}</span>}
+            {after !== undefined && <span className="text-accent">{formatValue(after)}</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function ActivityLog({ scheduleId, symbolsBySchedule = {}, refreshKey, className }: ActivityLogProps) {
+  const [entries, setEntries] = React.useState<AuditEntry[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [actors, setActors] = React.useState<string[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [scope, setScope] = React.useState<Scope>('schedule')
+  const [action, setAction] = React.useState<AuditAction | typeof ALL>(ALL)
+  const [actor, setActor] = React.useState<string>(ALL)
+  const [expanded, setExpanded] = React.useState<string | null>(null)
+  const [actorName, setActorNameState] = React.useState('')
+
+  React.useEffect(() => {
+    setActorNameState(getActorName())
+  }, [])
+
+  const load = async (skip: number) => {
+    setLoading(true)
+    setError(null)
+    const result = await fetchActivity({
+      scheduleId: scope === 'schedule' ? scheduleId ?? undefined : undefined,
+      action: action === ALL ? undefined : action,
+      actor: actor === ALL ? undefined : actor,
+      skip,
+      limit: PAGE_SIZE,
+    })
+    if (result.success) {
+      setEntries(prev => (skip === 0 ? result.entries : [...prev, ...result.entries]))
+      setTotal(result.total)
+      setActors(result.actors)
+    } else {
+      setError(result.error ?? 'Failed to load activity')
+    }
+    setLoading(false)
+  }
+
+  const loadRef = React.useRef(load)
+  loadRef.current = load
+
+  React.useEffect(() => {
+    loadRef.current(0)
+  }, [scheduleId, scope, action, actor, refreshKey])
+
+  const labelFor = (entry: AuditEntry) => {
+    if (!entry.target_id) return '—'
+    if (entry.target_type === 'webhook') return `Webhook ${entry.target_id.slice(-8)}`
+    return symbolsBySchedule[entry.target_id] ?? entry.target_id.slice(-8)
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Who am I */}
+      <div className="flex items-center gap-2">
+        <UserRound className="w-4 h-4 text-muted-foreground shrink-0" />
+        <Label htmlFor="actor-name" className="text-xs text-muted-foreground whitespace-nowrap">
+          Record my changes as
+        </Label>
+        <Input
+          id="actor-name"
+          value={actorName}
+          onChange={(e) => setActorNameState(e.target.value)}
+          onBlur={() => setActorName(actorName)}
+          placeholder="anonymous"
+          maxLength={80}
+          className="h-8 bg-background border-border text-sm"
+        />
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-sm border border-border overflow-hidden">
+          {(['schedule', 'all'] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setScope(value)}
+              className={cn(
+                'px-2 py-1 text-xs transition-colors',
+                scope === value ? 'bg-primary text-white' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {value === 'schedule' ? 'This schedule' : 'All'}
+            </button>
+          ))}
+        </div>
+        <Select value={action} onValueChange={(value) => setAction(value as AuditAction | typeof ALL)}>
+          <SelectTrigger className="h-8 w-40 bg-background border-border text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((value) => (
+              <SelectItem key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={actor} onValueChange={setActor}>
+          <SelectTrigger className="h-8 w-36 bg-background border-border text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Everyone</SelectItem>
+            {actors.map((name) => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      {loading && entries.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-8 text-sm text-muted-foreground">No activity recorded</div>
+      ) : (
+        <div className="rounded-sm border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border">
+                <TableHead className="h-9 w-6" />
+                <TableHead className="h-9 text-xs">Time</TableHead>
+                <TableHead className="h-9 text-xs">Actor</TableHead>
+                <TableHead className="h-9 text-xs">Action</TableHead>
+                <TableHead className="h-9 text-xs">Target</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const isExpanded = expanded === entry.id
+                return (
+                  <React.Fragment key={entry.id}>
+                    <TableRow
+                      className="border-border cursor-pointer"
+                      tabIndex={0}
+                      onClick={() => setExpanded(isExpanded ? null : entry.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') setExpanded(isExpanded ? null : entry.id)
+                      }}
+                    >
+                      <TableCell className="py-2">
+                        {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                      </TableCell>
+                      <TableCell className="py-2 text-xs whitespace-nowrap">{formatTimestamp(entry.timestamp)}</TableCell>
+                      <TableCell className="py-2 text-xs">
+                        <div>{entry.actor}</div>
+                        {entry.ip && <div className="text-[10px] text-muted-foreground">{entry.ip}</div>}
+                      </TableCell>
+                      <TableCell className="py-2">
+                        <Badge
+                          variant="outline"
+                          className={cn('text-xs', entry.success ? 'border-border' : 'border-destructive text-destructive')}
+                        >
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                          {!entry.success && ' · failed'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="py-2 text-xs">{labelFor(entry)}</TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="border-border hover:bg-transparent">
+                        <TableCell />
+                        <TableCell colSpan={4} className="py-2">
+                          <EntryDetails entry={entry} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {entries.length < total && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => load(entries.length)} disabled={loading}>
+            {loading && <Loader2 className="w-3 h-3 animate-spin mr-1" />}
+            Load more ({total - entries.length})
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
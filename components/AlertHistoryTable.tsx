@@ -0,0 +1,486 @@
+'use client'
+
+import * as React from 'react'
+import {
+  useReactTable,
+  getCoreRowModel,
+  getSortedRowModel,
+  getFilteredRowModel,
+  flexRender,
+  type ColumnDef,
+  type ColumnFiltersState,
+  type SortingState,
+  type PaginationState,
+  type FilterFn,
+} from '@tanstack/react-table'
+import { getScheduleLogs } from '@/lib/scheduler'
+import {
+  toAlertHistoryItem,
+  formatCurrency,
+  formatPercentage,
+  formatTimestamp,
+  type AlertHistoryItem,
+} from '@/lib/stockAlert'
+import { evaluateAlertRules, describeAlertRule, type AlertRule } from '@/lib/alertRules'
+import { describeViolation } from '@/lib/responseSchemas'
+import { ExecutionLogSheet } from '@/components/ExecutionLogSheet'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { Loader2, Mail, ArrowUpDown, ArrowUp, ArrowDown, AlertTriangle } from 'lucide-react'
+
+// Pages come from the server (skip/limit). The scheduler API can't filter or
+// sort logs, so filters, sorting and rule replay apply to the loaded page
+const PAGE_SIZES = [25, 50, 100]
+
+type TriState = 'all' | 'yes' | 'no'
+type Direction = 'all' | 'up' | 'down'
+
+interface DateRange {
+  from?: string
+  to?: string
+}
+
+interface AlertHistoryTableProps {
+  scheduleId: string | null
+  refreshKey?: number
+  rules?: AlertRule[]
+  sampleItems?: AlertHistoryItem[]
+}
+
+// ---------------------------------------------------------------------------
+// Filter functions
+// ---------------------------------------------------------------------------
+
+const dateRangeFilter: FilterFn<AlertHistoryItem> = (row, columnId, value: DateRange) => {
+  const executed = new Date(row.getValue<string>(columnId)).getTime()
+  if (value.from && executed < new Date(`${value.from}T00:00:00`).getTime()) return false
+  if (value.to && executed > new Date(`${value.to}T23:59:59.999`).getTime()) return false
+  return true
+}
+
+const triStateFilter: FilterFn<AlertHistoryItem> = (row, columnId, value: TriState) => {
+  if (value === 'all') return true
+  return row.getValue<boolean>(columnId) === (value === 'yes')
+}
+
+const directionFilter: FilterFn<AlertHistoryItem> = (row, columnId, value: Direction) => {
+  const pct = row.getValue<number | undefined>(columnId)
+  if (value === 'all') return true
+  if (pct === undefined || pct === null) return false
+  return value === 'up' ? pct >= 0 : pct < 0
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+function SortHeader({ label, sorted, onClick }: { label: string; sorted: false | 'asc' | 'desc'; onClick: () => void }) {
+  const Icon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown
+  return (
+    <button type="button" onClick={onClick} className="flex items-center gap-1 hover:text-foreground">
+      {label}
+      <Icon className="w-3 h-3" />
+    </button>
+  )
+}
+
+export function AlertHistoryTable({ scheduleId, refreshKey, rules = [], sampleItems }: AlertHistoryTableProps) {
+  const [items, setItems] = React.useState<AlertHistoryItem[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [pagination, setPagination] = React.useState<PaginationState>({ pageIndex: 0, pageSize: PAGE_SIZES[0] })
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [sorting, setSorting] = React.useState<SortingState>([])
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([])
+  const [selected, setSelected] = React.useState<AlertHistoryItem | null>(null)
+
+  // Back to the first page whenever the schedule changes
+  React.useEffect(() => {
+    setPagination(prev => ({ ...prev, pageIndex: 0 }))
+  }, [scheduleId])
+
+  const { pageIndex, pageSize } = pagination
+
+  React.useEffect(() => {
+    if (sampleItems || !scheduleId) return
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      const result = await getScheduleLogs(scheduleId, { skip: pageIndex * pageSize, limit: pageSize })
+      if (cancelled) return
+      if (result.success) {
+        setItems(result.executions.map(toAlertHistoryItem))
+        setTotal(result.total)
+      } else {
+        setError(result.error ?? 'Failed to load alert history')
+      }
+      setLoading(false)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [scheduleId, pageIndex, pageSize, refreshKey, sampleItems])
+
+  const data = sampleItems ?? items
+  const totalCount = sampleItems ? sampleItems.length : total
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize))
+  const rulesActive = rules.some(r => r.enabled)
+  const firedRules = React.useMemo(() => evaluateAlertRules(data, rules), [data, rules])
+
+  const columns = React.useMemo<ColumnDef<AlertHistoryItem>[]>(() => [
+    {
+      id: 'executed_at',
+      accessorKey: 'executed_at',
+      header: 'Time',
+      filterFn: dateRangeFilter,
+      cell: ({ row }) => (
+        <div className="space-y-0.5">
+          <div className="text-xs">{formatTimestamp(row.original.executed_at)}</div>
+          {firedRules[row.original.id] && (
+            <div className="text-xs text-primary truncate max-w-[180px]">
+              Rule {firedRules[row.original.id]!.id}: {describeAlertRule(firedRules[row.original.id]!)}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      id: 'current_price',
+      accessorFn: (item) => item.data?.current_price,
+      sortUndefined: 'last',
+      header: ({ column }) => (
+        <SortHeader label="Price" sorted={column.getIsSorted()} onClick={() => column.toggleSorting()} />
+      ),
+      cell: ({ row }) => (
+        <span className="font-medium">{formatCurrency(row.original.data?.current_price)}</span>
+      ),
+    },
+    {
+      id: 'daily_change_percentage',
+      accessorFn: (item) => item.data?.daily_change_percentage,
+      sortUndefined: 'last',
+      filterFn: directionFilter,
+      header: ({ column }) => (
+        <SortHeader label="Change" sorted={column.getIsSorted()} onClick={() => column.toggleSorting()} />
+      ),
+      cell: ({ row }) => {
+        const data = row.original.data
+        if (!data) return <span className="text-muted-foreground">—</span>
+        const isPositive = (data.daily_change_amount ?? 0) >= 0
+        return (
+          <div className={cn('text-xs', isPositive ? 'text-accent' : 'text-destructive')}>
+            <div>{formatPercentage(data.daily_change_percentage)}</div>
+            <div>
+              {isPositive ? '+' : '-'}
+              {formatCurrency(Math.abs(data.daily_change_amount ?? 0))}
+            </div>
+          </div>
+        )
+      },
+    },
+    {
+      id: 'success',
+      accessorKey: 'success',
+      filterFn: triStateFilter,
+      enableSorting: false,
+    },
+    {
+      id: 'email_sent',
+      accessorFn: (item) => !!item.data?.email_sent,
+      filterFn: triStateFilter,
+      enableSorting: false,
+      header: 'Status',
+      cell: ({ row }) => {
+        const { success, data, violations = [] } = row.original
+        const sent = success && data?.email_sent
+        const heldByRules = rulesActive && success && !!data && !data.email_sent
+        return (
+          <div className="flex items-center gap-1">
+            <Badge
+              variant={sent ? 'default' : 'secondary'}
+              className={sent ? 'bg-accent text-white text-xs' : 'bg-muted text-xs'}
+            >
+              {sent ? 'Sent' : heldByRules ? 'No rule hit' : 'Failed'}
+            </Badge>
+            {violations.length > 0 && (
+              <Badge
+                variant="outline"
+                className="border-destructive text-destructive text-xs gap-1"
+                title={violations.map(describeViolation).join('\n')}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                Schema
+              </Badge>
+            )}
+          </div>
+        )
+      },
+    },
+  ], [firedRules, rulesActive])
+
+  const table = useReactTable({
+    data,
+    columns,
+    state: {
+      sorting,
+      columnFilters,
+      pagination,
+      columnVisibility: { success: false },
+    },
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
+    onPaginationChange: setPagination,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    manualPagination: true,
+    pageCount,
+  })
+
+  const pageRowCount = table.getFilteredRowModel().rows.length
+  const pageOnly = columnFilters.length > 0 || sorting.length > 0
+
+  const filterValue = <T,>(id: string, fallback: T): T =>
+    (columnFilters.find(f => f.id === id)?.value as T | undefined) ?? fallback
+
+  const setFilter = (id: string, value: unknown, isEmpty: boolean) => {
+    setColumnFilters(prev => {
+      const others = prev.filter(f => f.id !== id)
+      return isEmpty ? others : [...others, { id, value }]
+    })
+  }
+
+  const dateRange = filterValue<DateRange>('executed_at', {})
+  const setDateRange = (patch: DateRange) => {
+    const next = { ...dateRange, ...patch }
+    setFilter('executed_at', next, !next.from && !next.to)
+  }
+
+  const goToPage = (index: number) => {
+    table.setPageIndex(Math.min(Math.max(index, 0), pageCount - 1))
+  }
+
+  // Compact page list: first, last, and neighbours of the current page
+  const pageNumbers = Array.from({ length: pageCount }, (_, i) => i).filter(
+    i => i === 0 || i === pageCount - 1 || Math.abs(i - pageIndex) <= 1
+  )
+
+  const rows = table.getRowModel().rows
+
+  return (
+    <div className="space-y-3">
+      {/* Filters */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <Select
+          value={filterValue<TriState>('success', 'all')}
+          onValueChange={(v) => setFilter('success', v, v === 'all')}
+        >
+          <SelectTrigger className="h-8 bg-background border-border text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All runs</SelectItem>
+            <SelectItem value="yes">Successful</SelectItem>
+            <SelectItem value="no">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filterValue<TriState>('email_sent', 'all')}
+          onValueChange={(v) => setFilter('email_sent', v, v === 'all')}
+        >
+          <SelectTrigger className="h-8 bg-background border-border text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any email status</SelectItem>
+            <SelectItem value="yes">Email sent</SelectItem>
+            <SelectItem value="no">Email not sent</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={filterValue<Direction>('daily_change_percentage', 'all')}
+          onValueChange={(v) => setFilter('daily_change_percentage', v, v === 'all')}
+        >
+          <SelectTrigger className="h-8 bg-background border-border text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any direction</SelectItem>
+            <SelectItem value="up">Up</SelectItem>
+            <SelectItem value="down">Down</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          aria-label="From date"
+          value={dateRange.from ?? ''}
+          onChange={(e) => setDateRange({ from: e.target.value || undefined })}
+          className="h-8 bg-background border-border text-xs"
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={dateRange.to ?? ''}
+          onChange={(e) => setDateRange({ to: e.target.value || undefined })}
+          className="h-8 bg-background border-border text-xs"
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => setColumnFilters([])}
+          disabled={columnFilters.length === 0}
+        >
+          Clear filters
+        </Button>
+      </div>
+
+      {/* Table */}
+      {loading && data.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : error ? (
+        <div className="text-center py-12 text-sm text-destructive">{error}</div>
+      ) : totalCount === 0 ? (
+        <div className="text-center py-12 text-muted-foreground text-sm">
+          <Mail className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No alerts sent yet</p>
+          <p className="text-xs mt-1">Alerts will appear here once the schedule runs</p>
+        </div>
+      ) : (
+        <div className={cn('rounded-sm border border-border', loading && 'opacity-60')}>
+          <Table>
+            <TableHeader>
+              {table.getHeaderGroups().map((headerGroup) => (
+                <TableRow key={headerGroup.id} className="border-border">
+                  {headerGroup.headers.map((header) => (
+                    <TableHead key={header.id} className="h-9 text-xs">
+                      {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              ))}
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow className="border-border">
+                  <TableCell colSpan={columns.length} className="text-center text-xs text-muted-foreground py-8">
+                    No executions on this page match the filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow
+                    key={row.id}
+                    tabIndex={0}
+                    onClick={() => setSelected(row.original)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') setSelected(row.original)
+                    }}
+                    className="border-border cursor-pointer"
+                  >
+                    {row.getVisibleCells().map((cell) => (
+                      <TableCell key={cell.id} className="py-2">
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span>
+            {totalCount} executions
+            {pageOnly && ` · filters and sorting apply to this page (${pageRowCount} of ${data.length} shown)`}
+          </span>
+          <Select
+            value={String(pageSize)}
+            onValueChange={(v) => setPagination({ pageIndex: 0, pageSize: Number(v) })}
+          >
+            <SelectTrigger className="h-7 w-20 bg-background border-border text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} / page
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Pagination className="mx-0 w-auto justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={(e) => {
+                  e.preventDefault()
+                  goToPage(pageIndex - 1)
+                }}
+                className={cn(pageIndex === 0 && 'pointer-events-none opacity-50')}
+              />
+            </PaginationItem>
+            {pageNumbers.map((page, i) => (
+              <React.Fragment key={page}>
+                {i > 0 && page - pageNumbers[i - 1] > 1 && (
+                  <PaginationItem>
+                    <PaginationEllipsis />
+                  </PaginationItem>
+                )}
+                <PaginationItem>
+                  <PaginationLink
+                    href="#"
+                    isActive={page === pageIndex}
+                    onClick={(e) => {
+                      e.preventDefault()
+                      goToPage(page)
+                    }}
+                  >
+                    {page + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              </React.Fragment>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={(e) => {
+                  e.preventDefault()
+                  goToPage(pageIndex + 1)
+                }}
+                className={cn(pageIndex >= pageCount - 1 && 'pointer-events-none opacity-50')}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      </div>
+
+      <ExecutionLogSheet item={selected} onOpenChange={(open) => !open && setSelected(null)} />
+    </div>
+  )
+}
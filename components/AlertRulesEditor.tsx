@@ -0,0 +1,177 @@
+'use client'
+
+import * as React from 'react'
+import {
+  ALERT_RULE_TYPES,
+  fetchAlertRules,
+  saveAlertRules,
+  type AlertRule,
+  type AlertRuleType,
+} from '@/lib/alertRules'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, Plus, Trash2, CheckCircle2 } from 'lucide-react'
+
+interface AlertRulesEditorProps {
+  scheduleId: string | null
+  onSaved?: (rules: AlertRule[]) => void
+}
+
+function nextRuleId(rules: AlertRule[]): string {
+  const max = rules.reduce((acc, rule) => {
+    const n = parseInt(rule.id.replace(/^r/, ''), 10)
+    return Number.isFinite(n) ? Math.max(acc, n) : acc
+  }, 0)
+  return `r${max + 1}`
+}
+
+export function AlertRulesEditor({ scheduleId, onSaved }: AlertRulesEditorProps) {
+  const [rules, setRules] = React.useState<AlertRule[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [saved, setSaved] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!scheduleId) return
+    let cancelled = false
+    setLoading(true)
+    fetchAlertRules(scheduleId).then((result) => {
+      if (cancelled) return
+      if (result.success) {
+        setRules(result.rules)
+      } else {
+        setError(result.error ?? 'Failed to load rules')
+      }
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [scheduleId])
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) => {
+    setSaved(false)
+    setRules(prev => prev.map(r => (r.id === id ? { ...r, ...patch } : r)))
+  }
+
+  const addRule = () => {
+    setSaved(false)
+    setRules(prev => [...prev, { id: nextRuleId(prev), type: 'daily_change_abs', threshold: 2, enabled: true }])
+  }
+
+  const removeRule = (id: string) => {
+    setSaved(false)
+    setRules(prev => prev.filter(r => r.id !== id))
+  }
+
+  const handleSave = async () => {
+    if (!scheduleId) return
+    setSaving(true)
+    setError(null)
+    const result = await saveAlertRules(scheduleId, rules)
+    if (result.success) {
+      setRules(result.rules)
+      setSaved(true)
+      onSaved?.(result.rules)
+    } else {
+      setError(result.error ?? 'Failed to save rules')
+    }
+    setSaving(false)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        The agent only emails when at least one enabled rule matches. With no enabled rules it emails on every run.
+      </p>
+
+      {rules.length === 0 ? (
+        <div className="text-center py-4 text-sm text-muted-foreground">No rules yet</div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => {
+            const unit = ALERT_RULE_TYPES.find(t => t.value === rule.type)?.unit
+            return (
+              <div key={rule.id} className="flex items-center gap-2">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                  aria-label={`Enable rule ${rule.id}`}
+                />
+                <Select
+                  value={rule.type}
+                  onValueChange={(type) => updateRule(rule.id, { type: type as AlertRuleType })}
+                >
+                  <SelectTrigger className="h-9 flex-1 bg-background border-border text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALERT_RULE_TYPES.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>
+                        {t.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="relative w-28">
+                  {unit === '$' && (
+                    <span className="absolute left-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">$</span>
+                  )}
+                  <Input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={Number.isFinite(rule.threshold) ? rule.threshold : ''}
+                    onChange={(e) => updateRule(rule.id, { threshold: parseFloat(e.target.value) })}
+                    className={`h-9 bg-background border-border text-sm ${unit === '$' ? 'pl-5' : 'pr-6'}`}
+                  />
+                  {unit === '%' && (
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => removeRule(rule.id)} aria-label={`Remove rule ${rule.id}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={addRule}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Rule
+      </Button>
+
+      {error && <div className="text-sm text-destructive">{error}</div>}
+
+      <div className="flex items-center gap-2 justify-end">
+        {saved && (
+          <span className="flex items-center gap-1 text-xs text-accent">
+            <CheckCircle2 className="w-4 h-4" />
+            Rules applied to schedule
+          </span>
+        )}
+        <Button
+          onClick={handleSave}
+          disabled={saving || !scheduleId}
+          className="bg-primary text-white hover:bg-primary/90"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+          Save Rules
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import * as React from 'react'
+import {
+  parseExecutionDetails,
+  formatCurrency,
+  formatPercentage,
+  type AlertHistoryItem,
+} from '@/lib/stockAlert'
+import { copyToClipboard } from '@/lib/clipboard'
+import { describeViolation } from '@/lib/responseSchemas'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import { Copy, Check, AlertCircle, AlertTriangle } from 'lucide-react'
+
+interface ExecutionLogSheetProps {
+  item: AlertHistoryItem | null
+  onOpenChange: (open: boolean) => void
+}
+
+// Pretty-print JSON output; leave anything else as-is
+function prettyPrint(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2)
+  } catch {
+    return raw
+  }
+}
+
+function Field({ label, children, mono }: { label: string; children: React.ReactNode; mono?: boolean }) {
+  return (
+    <div className="space-y-0.5">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className={cn('text-sm break-all', mono && 'font-mono text-xs')}>{children}</div>
+    </div>
+  )
+}
+
+function Section({ title, action, children }: { title: string; action?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{title}</div>
+        {action}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+export function ExecutionLogSheet({ item, onOpenChange }: ExecutionLogSheetProps) {
+  const [copied, setCopied] = React.useState(false)
+  const log = item?.log
+  const parse = React.useMemo(() => (log ? parseExecutionDetails(log) : null), [log])
+  const rawOutput = React.useMemo(() => (log?.response_output ? prettyPrint(log.response_output) : ''), [log])
+
+  React.useEffect(() => {
+    setCopied(false)
+  }, [item?.id])
+
+  const handleCopy = async () => {
+    if (await copyToClipboard(rawOutput)) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    }
+  }
+
+  return (
+    <Sheet open={!!item} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-card border-border w-full sm:max-w-xl p-0">
+        {item && (
+          <ScrollArea className="h-full">
+            <div className="p-6 space-y-6">
+              <SheetHeader>
+                <SheetTitle className="flex items-center gap-2">
+                  Execution
+                  <Badge
+                    variant={item.success ? 'default' : 'secondary'}
+                    className={item.success ? 'bg-accent text-white' : 'bg-destructive text-white'}
+                  >
+                    {item.success ? 'Succeeded' : 'Failed'}
+                  </Badge>
+                </SheetTitle>
+                <SheetDescription>{new Date(item.executed_at).toLocaleString()}</SheetDescription>
+              </SheetHeader>
+
+              {!log ? (
+                <div className="text-sm text-muted-foreground">Raw execution details are not available for sample data.</div>
+              ) : (
+                <>
+                  <Section title="Run">
+                    <div className="grid grid-cols-2 gap-3">
+                      <Field label="Attempt">
+                        {log.attempt} of {log.max_attempts}
+                        {log.attempt > 1 && <span className="text-xs text-muted-foreground"> (retried)</span>}
+                      </Field>
+                      <Field label="Response status">
+                        <span className={log.response_status >= 400 ? 'text-destructive' : undefined}>
+                          {log.response_status || '—'}
+                        </span>
+                      </Field>
+                      <Field label="Execution ID" mono>{log.id}</Field>
+                      <Field label="Session ID" mono>{log.session_id || '—'}</Field>
+                    </div>
+                    {log.error_message && (
+                      <div className="flex items-start gap-2 rounded-sm bg-destructive/10 text-destructive p-2 text-xs">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        <span className="whitespace-pre-wrap break-words">{log.error_message}</span>
+                      </div>
+                    )}
+                  </Section>
+
+                  <Section title="Parsed data">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="text-muted-foreground">Accessor path:</span>
+                      {parse?.path ? (
+                        <code className="rounded-sm bg-background px-1.5 py-0.5">{parse.path}</code>
+                      ) : (
+                        <span className="text-destructive">none — {parse?.error ?? 'not parsed'}</span>
+                      )}
+                      {parse && !parse.json && log.response_output && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">not JSON</Badge>
+                      )}
+                    </div>
+                    {parse && parse.violations.length > 0 && (
+                      <div className="flex items-start gap-2 rounded-sm bg-destructive/10 text-destructive p-2 text-xs">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        <div className="space-y-1">
+                          <div>Doesn&apos;t match the agent&apos;s response schema:</div>
+                          <ul className="space-y-0.5 font-mono">
+                            {parse.violations.map((violation) => (
+                              <li key={violation.path}>{describeViolation(violation)}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
+                    {item.data && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <Field label="Symbol">{item.data.stock_symbol ?? '—'}</Field>
+                        <Field label="Price">{formatCurrency(item.data.current_price)}</Field>
+                        <Field label="Change">
+                          {formatPercentage(item.data.daily_change_percentage)} ({formatCurrency(item.data.daily_change_amount)})
+                        </Field>
+                        <Field label="Market status">{item.data.market_status ?? '—'}</Field>
+                        <Field label="Email sent">
+                          {item.data.email_sent ? `Yes${item.data.recipient_email ? ` — ${item.data.recipient_email}` : ''}` : 'No'}
+                        </Field>
+                        <Field label="Triggered rule">{item.data.triggered_rule ?? '—'}</Field>
+                      </div>
+                    )}
+                  </Section>
+
+                  <Section title="Payload message">
+                    <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words rounded-sm bg-background p-3 text-xs">
+                      {log.payload_message || '—'}
+                    </pre>
+                  </Section>
+
+                  <Section
+                    title="Raw response"
+                    action={
+                      rawOutput && (
+                        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleCopy}>
+                          {copied ? <Check className="w-3 h-3 mr-1 text-accent" /> : <Copy className="w-3 h-3 mr-1" />}
+                          Copy
+                        </Button>
+                      )
+                    }
+                  >
+                    <pre className="max-h-96 overflow-auto rounded-sm bg-background p-3 text-xs">
+                      {rawOutput || 'No response output'}
+                    </pre>
+                  </Section>
+                </>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
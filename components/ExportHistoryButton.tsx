@@ -0,0 +1,103 @@
+'use client'
+
+import * as React from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download } from 'lucide-react'
+
+type ExportFormat = 'csv' | 'json' | 'xls'
+
+interface ExportHistoryButtonProps {
+  scheduleId: string | null
+  disabled?: boolean
+}
+
+export function ExportHistoryButton({ scheduleId, disabled }: ExportHistoryButtonProps) {
+  const [open, setOpen] = React.useState(false)
+  const [format, setFormat] = React.useState<ExportFormat>('csv')
+  const [from, setFrom] = React.useState('')
+  const [to, setTo] = React.useState('')
+
+  const rangeInvalid = !!from && !!to && from > to
+
+  const handleExport = () => {
+    if (!scheduleId || rangeInvalid) return
+    // Dates are picked in local time; the server cuts whole days in this timezone
+    const query = new URLSearchParams({ scheduleId, format, tz: Intl.DateTimeFormat().resolvedOptions().timeZone })
+    if (from) query.set('from', from)
+    if (to) query.set('to', to)
+
+    // Let the browser handle the streamed download
+    const link = document.createElement('a')
+    link.href = `/api/alerts/export?${query}`
+    link.rel = 'noopener'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={disabled || !scheduleId} aria-label="Export alert history">
+          <Download className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 bg-card border-border space-y-3">
+        <div className="text-sm font-medium">Export Alert History</div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="export-from" className="text-xs">From</Label>
+            <Input
+              id="export-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="h-8 bg-background border-border text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-to" className="text-xs">To</Label>
+            <Input
+              id="export-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="h-8 bg-background border-border text-xs"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Format</Label>
+          <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+            <SelectTrigger className="h-8 bg-background border-border text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+              <SelectItem value="xls">Excel 2003 XML (.xls)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {from || to ? 'Exports every execution in the selected range.' : 'Leave dates empty to export the full history.'}
+        </p>
+        {rangeInvalid && <div className="text-xs text-destructive">The start date must be before the end date</div>}
+        <Button
+          size="sm"
+          onClick={handleExport}
+          disabled={rangeInvalid}
+          className="w-full bg-primary text-white hover:bg-primary/90"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import * as React from 'react'
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid } from 'recharts'
+import { getScheduleLogsSince } from '@/lib/scheduler'
+import {
+  toAlertHistoryItem,
+  formatCurrency,
+  formatPercentage,
+  formatTimestamp,
+  type AlertHistoryItem,
+} from '@/lib/stockAlert'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { cn } from '@/lib/utils'
+import { Loader2, LineChart as LineChartIcon } from 'lucide-react'
+
+type ChartRange = '1D' | '5D' | '1M'
+
+const RANGE_MS: Record<ChartRange, number> = {
+  '1D': 24 * 60 * 60 * 1000,
+  '5D': 5 * 24 * 60 * 60 * 1000,
+  '1M': 30 * 24 * 60 * 60 * 1000,
+}
+
+const chartConfig = {
+  current_price: { label: 'Price', color: 'hsl(var(--primary))' },
+  daily_change_percentage: { label: 'Change %', color: 'hsl(var(--accent))' },
+  failed: { label: 'Failed run', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig
+
+interface ChartPoint {
+  t: number
+  current_price: number | null
+  daily_change_percentage: number | null
+  // Failed runs are plotted at the last known price so they sit on the line
+  failed: number | null
+  item: AlertHistoryItem
+}
+
+interface PriceChartProps {
+  scheduleId: string | null
+  symbol?: string
+  refreshKey?: number
+  sampleItems?: AlertHistoryItem[]
+  className?: string
+}
+
+function buildPoints(items: AlertHistoryItem[], since: number): ChartPoint[] {
+  const sorted = items
+    .filter(item => new Date(item.executed_at).getTime() >= since)
+    .sort((a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime())
+
+  // Failures before the first successful run fall back to the first known price
+  let lastPrice: number | null =
+    sorted.find(item => item.success && item.data?.current_price != null)?.data?.current_price ?? null
+  return sorted.map((item) => {
+    const price = item.success ? item.data?.current_price ?? null : null
+    if (price !== null) lastPrice = price
+    return {
+      t: new Date(item.executed_at).getTime(),
+      current_price: price,
+      daily_change_percentage: item.success ? item.data?.daily_change_percentage ?? null : null,
+      failed: item.success ? null : lastPrice,
+      item,
+    }
+  })
+}
+
+function formatTick(value: number, range: ChartRange): string {
+  const date = new Date(value)
+  if (range === '1D') {
+    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+  }
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function PriceTooltipContent({ active, payload }: { active?: boolean; payload?: Array<{ payload: ChartPoint }> }) {
+  if (!active || !payload?.length) return null
+  const { item } = payload[0].payload
+  const data = item.data
+
+  return (
+    <div className="grid min-w-[12rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">{formatTimestamp(item.executed_at)}</div>
+      {!item.success ? (
+        <div className="text-destructive">Failed: {item.error_message ?? 'Unknown error'}</div>
+      ) : !data ? (
+        <div className="text-muted-foreground">Response could not be parsed</div>
+      ) : (
+        <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+          <span className="text-muted-foreground">Symbol</span>
+          <span className="text-right">{data.stock_symbol ?? '—'}</span>
+          <span className="text-muted-foreground">Price</span>
+          <span className="text-right font-mono">{formatCurrency(data.current_price)}</span>
+          <span className="text-muted-foreground">Change</span>
+          <span className="text-right font-mono">{formatCurrency(data.daily_change_amount)}</span>
+          <span className="text-muted-foreground">Change %</span>
+          <span className="text-right font-mono">{formatPercentage(data.daily_change_percentage)}</span>
+          <span className="text-muted-foreground">Market</span>
+          <span className="text-right">{data.market_status ?? 'Unknown'}</span>
+          <span className="text-muted-foreground">Quote time</span>
+          <span className="text-right">{formatTimestamp(data.timestamp)}</span>
+          <span className="text-muted-foreground">Email</span>
+          <span className="text-right">
+            {data.email_sent ? `Sent to ${data.recipient_email ?? 'recipient'}` : 'Not sent'}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function PriceChart({ scheduleId, symbol, refreshKey, sampleItems, className }: PriceChartProps) {
+  const [range, setRange] = React.useState<ChartRange>('1D')
+  const [items, setItems] = React.useState<AlertHistoryItem[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (sampleItems || !scheduleId) return
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      const result = await getScheduleLogsSince(scheduleId, new Date(Date.now() - RANGE_MS[range]))
+      if (cancelled) return
+      if (result.success) {
+        setItems(result.executions.map(toAlertHistoryItem))
+      } else {
+        setError(result.error ?? 'Failed to load price history')
+      }
+      setLoading(false)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [scheduleId, range, refreshKey, sampleItems])
+
+  const points = React.useMemo(
+    () => buildPoints(sampleItems ?? items, Date.now() - RANGE_MS[range]),
+    [sampleItems, items, range]
+  )
+  const failedCount = points.filter(p => !p.item.success).length
+
+  return (
+    <Card className={cn('bg-card border-border border rounded-sm', className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <LineChartIcon className="w-4 h-4" />
+            {symbol ? `${symbol} Price` : 'Price History'}
+            {failedCount > 0 && (
+              <span className="text-xs font-normal text-destructive">
+                {failedCount} failed run{failedCount === 1 ? '' : 's'}
+              </span>
+            )}
+          </CardTitle>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={range}
+            onValueChange={(value) => value && setRange(value as ChartRange)}
+          >
+            {(Object.keys(RANGE_MS) as ChartRange[]).map((r) => (
+              <ToggleGroupItem key={r} value={r} className="text-xs px-2">
+                {r}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && points.length === 0 ? (
+          <div className="flex items-center justify-center h-[260px]">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-[260px] text-sm text-destructive">{error}</div>
+        ) : points.length === 0 ? (
+          <div className="flex items-center justify-center h-[260px] text-sm text-muted-foreground">
+            No executions in this range
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+            <ComposedChart data={points} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="t"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value) => formatTick(value, range)}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+              />
+              <YAxis
+                yAxisId="price"
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => `$${Number(value).toFixed(0)}`}
+                tickLine={false}
+                axisLine={false}
+                width={48}
+              />
+              <YAxis
+                yAxisId="pct"
+                orientation="right"
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => `${Number(value).toFixed(1)}%`}
+                tickLine={false}
+                axisLine={false}
+                width={44}
+              />
+              <ChartTooltip content={<PriceTooltipContent />} />
+              <Line
+                yAxisId="price"
+                dataKey="current_price"
+                type="monotone"
+                stroke="var(--color-current_price)"
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+              <Line
+                yAxisId="pct"
+                dataKey="daily_change_percentage"
+                type="monotone"
+                stroke="var(--color-daily_change_percentage)"
+                strokeWidth={1}
+                strokeDasharray="4 2"
+                dot={false}
+                connectNulls
+              />
+              <Scatter yAxisId="price" dataKey="failed" fill="var(--color-failed)" shape="cross" />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
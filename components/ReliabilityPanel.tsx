@@ -0,0 +1,192 @@
+'use client'
+
+import * as React from 'react'
+import { LineChart, Line } from 'recharts'
+import { getRecentExecutions, type ExecutionLog } from '@/lib/scheduler'
+import {
+  computeReliability,
+  windowDurationMs,
+  METRICS,
+  RELIABILITY_WINDOWS,
+  type MetricKey,
+  type ReliabilityReport,
+} from '@/lib/reliabilityMetrics'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { cn } from '@/lib/utils'
+import { Loader2, Gauge } from 'lucide-react'
+
+const PAGE_SIZE = 100
+const MAX_PAGES = 10
+
+type Scope = 'schedule' | 'agent'
+
+interface ReliabilityPanelProps {
+  agentId: string
+  scheduleId: string | null
+  symbol?: string
+  refreshKey?: number
+  className?: string
+}
+
+const sparklineConfig = {
+  value: { label: 'Value', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig
+
+function formatMetric(value: number | null, unit: '%' | 'min'): string {
+  if (value === null) return '—'
+  if (unit === '%') return `${value.toFixed(1)}%`
+  return value >= 120 ? `${(value / 60).toFixed(1)} h` : `${value.toFixed(1)} min`
+}
+
+function Sparkline({ report, metric }: { report: ReliabilityReport; metric: MetricKey }) {
+  const data = report.buckets.map(b => ({ t: b.start, value: b[metric] }))
+  if (data.every(d => d.value === null)) return <div className="h-8" />
+  return (
+    <ChartContainer config={sparklineConfig} className="aspect-auto h-8 w-full">
+      <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+        <Line
+          dataKey="value"
+          type="monotone"
+          stroke="var(--color-value)"
+          strokeWidth={1.5}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  )
+}
+
+export function ReliabilityPanel({ agentId, scheduleId, symbol, refreshKey, className }: ReliabilityPanelProps) {
+  const [windowId, setWindowId] = React.useState(RELIABILITY_WINDOWS[0].id)
+  const [scope, setScope] = React.useState<Scope>('schedule')
+  const [logs, setLogs] = React.useState<ExecutionLog[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [successTotal, setSuccessTotal] = React.useState<number | null>(null)
+  const [loadedAt, setLoadedAt] = React.useState(() => new Date())
+  const [loading, setLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const activeWindow = RELIABILITY_WINDOWS.find(w => w.id === windowId) ?? RELIABILITY_WINDOWS[0]
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      const filters = { agentId, hours: activeWindow.hours, days: activeWindow.days }
+
+      const collected: ExecutionLog[] = []
+      let reportedTotal = 0
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const result = await getRecentExecutions({ ...filters, skip: page * PAGE_SIZE, limit: PAGE_SIZE })
+        if (cancelled) return
+        if (!result.success) {
+          setError(result.error ?? 'Failed to load executions')
+          setLoading(false)
+          return
+        }
+        collected.push(...result.executions)
+        reportedTotal = result.total
+        if (result.executions.length < PAGE_SIZE || collected.length >= result.total) break
+      }
+
+      // When the window holds more runs than we page through, count successes
+      // upstream so the headline success rate stays exact
+      let successes: number | null = null
+      if (reportedTotal > collected.length) {
+        const result = await getRecentExecutions({ ...filters, success: true, limit: 1 })
+        if (cancelled) return
+        if (result.success) successes = result.total
+      }
+
+      setLogs(collected)
+      setTotal(reportedTotal)
+      setSuccessTotal(successes)
+      setLoadedAt(new Date())
+      setLoading(false)
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [agentId, activeWindow, refreshKey])
+
+  const scopedLogs = React.useMemo(
+    () => (scope === 'schedule' && scheduleId ? logs.filter(l => l.schedule_id === scheduleId) : logs),
+    [logs, scope, scheduleId]
+  )
+
+  const report = React.useMemo(
+    () =>
+      computeReliability(scopedLogs, {
+        from: new Date(loadedAt.getTime() - windowDurationMs(activeWindow)),
+        to: loadedAt,
+        bucketCount: activeWindow.buckets,
+      }),
+    [scopedLogs, loadedAt, activeWindow]
+  )
+
+  const truncated = total > logs.length
+  const summary = { ...report.summary }
+  if (scope === 'agent' && truncated && successTotal !== null && total > 0) {
+    summary.successRate = (successTotal / total) * 100
+  }
+
+  return (
+    <Card className={cn('bg-card border-border border rounded-sm', className)}>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <Gauge className="w-4 h-4" />
+            Reliability
+            {loading && <Loader2 className="w-3 h-3 animate-spin text-muted-foreground" />}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <ToggleGroup type="single" size="sm" value={scope} onValueChange={(v) => v && setScope(v as Scope)}>
+              <ToggleGroupItem value="schedule" className="text-xs px-2" disabled={!scheduleId}>
+                {symbol ?? 'Schedule'}
+              </ToggleGroupItem>
+              <ToggleGroupItem value="agent" className="text-xs px-2">
+                All
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <ToggleGroup type="single" size="sm" value={windowId} onValueChange={(v) => v && setWindowId(v)}>
+              {RELIABILITY_WINDOWS.map((w) => (
+                <ToggleGroupItem key={w.id} value={w.id} className="text-xs px-2" aria-label={w.label}>
+                  {w.id}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <div className="text-center py-6 text-sm text-destructive">{error}</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+              {METRICS.map((metric) => (
+                <div key={metric.key} className="p-3 rounded-sm border border-border bg-background/50 space-y-1">
+                  <div className="text-xs text-muted-foreground">{metric.label}</div>
+                  <div className="text-lg font-semibold">{formatMetric(summary[metric.key], metric.unit)}</div>
+                  <Sparkline report={report} metric={metric.key} />
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {report.runs} execution{report.runs === 1 ? '' : 's'} in the last {activeWindow.label}
+              {truncated && ` · metrics use the latest ${logs.length} of ${total} runs`}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
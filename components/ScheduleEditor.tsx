@@ -0,0 +1,311 @@
+'use client'
+
+import * as React from 'react'
+import { updateSchedule, cronToHuman, validateCron, type Schedule } from '@/lib/scheduler'
+import { getNextTradingRuns, TRADING_MODES, type TradingMode } from '@/lib/marketCalendar'
+import { stripInjectedSettings } from '@/lib/scheduleMessage'
+import {
+  validateScheduleFields,
+  isValidTimezone,
+  EDITABLE_SCHEDULE_FIELDS,
+  type EditableScheduleFields,
+  type ScheduleFieldErrors,
+} from '@/lib/scheduleValidation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, CheckCircle2, ArrowRight, CalendarClock } from 'lucide-react'
+
+interface ScheduleEditorProps {
+  schedule: Schedule | null
+  /**
+   * The cron as the user wrote it. The schedule's own cron_expression is
+   * narrowed to its trading hours, so editing that would bake the narrowing in.
+   */
+  baseCron?: string | null
+  tradingMode?: TradingMode
+  onSaved?: (schedule: Schedule) => void
+}
+
+interface FormState {
+  cron_expression: string
+  timezone: string
+  max_retries: string
+  retry_delay: string
+  message: string
+}
+
+const FIELD_LABELS: Record<keyof EditableScheduleFields, string> = {
+  cron_expression: 'Cron',
+  timezone: 'Timezone',
+  max_retries: 'Max retries',
+  retry_delay: 'Retry delay (s)',
+  message: 'Message',
+}
+
+const TIMEZONES: string[] =
+  typeof Intl !== 'undefined' && 'supportedValuesOf' in Intl
+    ? Intl.supportedValuesOf('timeZone')
+    : ['UTC', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Europe/London']
+
+function toForm(schedule: Schedule, baseCron?: string | null): FormState {
+  return {
+    cron_expression: baseCron ?? schedule.cron_expression,
+    timezone: schedule.timezone,
+    max_retries: String(schedule.max_retries),
+    retry_delay: String(schedule.retry_delay),
+    message: stripInjectedSettings(schedule.message),
+  }
+}
+
+const NEXT_RUN_COUNT = 5
+
+function formatRunTime(date: Date, timezone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  })
+}
+
+function parseForm(form: FormState): EditableScheduleFields {
+  return {
+    cron_expression: form.cron_expression.trim(),
+    timezone: form.timezone.trim(),
+    max_retries: form.max_retries.trim() === '' ? NaN : Number(form.max_retries),
+    retry_delay: form.retry_delay.trim() === '' ? NaN : Number(form.retry_delay),
+    message: form.message.trim(),
+  }
+}
+
+export function ScheduleEditor({ schedule, baseCron, tradingMode = 'always', onSaved }: ScheduleEditorProps) {
+  const [form, setForm] = React.useState<FormState | null>(schedule ? toForm(schedule, baseCron) : null)
+  const [errors, setErrors] = React.useState<ScheduleFieldErrors>({})
+  const [reviewing, setReviewing] = React.useState(false)
+  const [saving, setSaving] = React.useState(false)
+  const [saveError, setSaveError] = React.useState<string | null>(null)
+  const [saved, setSaved] = React.useState(false)
+
+  // Reset the form when a different schedule (or its base cron) is loaded — not when the same one is refreshed
+  const scheduleRef = React.useRef(schedule)
+  scheduleRef.current = schedule
+  const scheduleId = schedule?.id
+  React.useEffect(() => {
+    setForm(scheduleRef.current ? toForm(scheduleRef.current, baseCron) : null)
+    setErrors({})
+    setReviewing(false)
+    setSaveError(null)
+  }, [scheduleId, baseCron])
+
+  if (!schedule || !form) {
+    return <div className="text-center py-6 text-sm text-muted-foreground">No schedule selected</div>
+  }
+
+  const original = parseForm(toForm(schedule, baseCron))
+  const edited = parseForm(form)
+  const changes = EDITABLE_SCHEDULE_FIELDS.filter(field => original[field] !== edited[field])
+
+  const previewValid = !validateCron(edited.cron_expression) && isValidTimezone(edited.timezone)
+  // Preview what will actually fire: the trading mode drops runs outside its sessions
+  const nextRuns = previewValid ? getNextTradingRuns(edited.cron_expression, edited.timezone, tradingMode, NEXT_RUN_COUNT) : []
+  const modeLabel = TRADING_MODES.find(m => m.value === tradingMode)?.label
+
+  const setField = (field: keyof FormState, value: string) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev))
+    setErrors(prev => ({ ...prev, [field]: undefined }))
+    setSaved(false)
+  }
+
+  const handleReview = () => {
+    const fieldErrors = validateScheduleFields(edited)
+    setErrors(fieldErrors)
+    if (Object.keys(fieldErrors).length === 0 && changes.length > 0) {
+      setReviewing(true)
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setSaveError(null)
+    const patch = Object.fromEntries(changes.map(field => [field, edited[field]]))
+    const result = await updateSchedule(schedule.id, patch)
+    if (result.success && result.schedule) {
+      setSaved(true)
+      setReviewing(false)
+      onSaved?.(result.schedule)
+    } else {
+      setSaveError(result.error ?? 'Failed to update schedule')
+      if (result.fieldErrors) {
+        setErrors(result.fieldErrors as ScheduleFieldErrors)
+        setReviewing(false)
+      }
+    }
+    setSaving(false)
+  }
+
+  const formatValue = (field: keyof EditableScheduleFields, value: EditableScheduleFields[typeof field]) =>
+    field === 'cron_expression' ? `${value} (${cronToHuman(String(value))})` : String(value)
+
+  if (reviewing) {
+    return (
+      <div className="space-y-4">
+        <div className="text-sm font-medium">Review changes</div>
+        <div className="space-y-3">
+          {changes.map((field) => (
+            <div key={field} className="space-y-1">
+              <div className="text-xs text-muted-foreground">{FIELD_LABELS[field]}</div>
+              <div className="grid grid-cols-[1fr_auto_1fr] items-start gap-2 text-xs">
+                <pre className="whitespace-pre-wrap break-words rounded-sm bg-destructive/10 text-destructive px-2 py-1 line-through">
+                  {formatValue(field, original[field])}
+                </pre>
+                <ArrowRight className="w-3 h-3 mt-1.5 text-muted-foreground" />
+                <pre className="whitespace-pre-wrap break-words rounded-sm bg-accent/10 text-accent px-2 py-1">
+                  {formatValue(field, edited[field])}
+                </pre>
+              </div>
+            </div>
+          ))}
+        </div>
+        {saveError && <div className="text-sm text-destructive">{saveError}</div>}
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={() => setReviewing(false)} disabled={saving}>
+            Back
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="bg-primary text-white hover:bg-primary/90">
+            {saving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Confirm & Save
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="schedule-cron">Cron expression</Label>
+          <Input
+            id="schedule-cron"
+            value={form.cron_expression}
+            onChange={(e) => setField('cron_expression', e.target.value)}
+            className="bg-background border-border font-mono"
+          />
+          {errors.cron_expression ? (
+            <p className="text-xs text-destructive">{errors.cron_expression}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">{cronToHuman(edited.cron_expression)}</p>
+          )}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="schedule-timezone">Timezone</Label>
+          <Input
+            id="schedule-timezone"
+            list="schedule-timezones"
+            value={form.timezone}
+            onChange={(e) => setField('timezone', e.target.value)}
+            className="bg-background border-border"
+          />
+          <datalist id="schedule-timezones">
+            {TIMEZONES.map((tz) => (
+              <option key={tz} value={tz} />
+            ))}
+          </datalist>
+          {errors.timezone && <p className="text-xs text-destructive">{errors.timezone}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="schedule-retries">Max retries</Label>
+          <Input
+            id="schedule-retries"
+            type="number"
+            min={0}
+            value={form.max_retries}
+            onChange={(e) => setField('max_retries', e.target.value)}
+            className="bg-background border-border"
+          />
+          {errors.max_retries && <p className="text-xs text-destructive">{errors.max_retries}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="schedule-delay">Retry delay (seconds)</Label>
+          <Input
+            id="schedule-delay"
+            type="number"
+            min={0}
+            value={form.retry_delay}
+            onChange={(e) => setField('retry_delay', e.target.value)}
+            className="bg-background border-border"
+          />
+          {errors.retry_delay && <p className="text-xs text-destructive">{errors.retry_delay}</p>}
+        </div>
+      </div>
+      <div className="rounded-sm border border-border bg-background/50 px-3 py-2 space-y-1">
+        <div className="flex items-center gap-1 text-xs font-medium">
+          <CalendarClock className="w-3 h-3 text-muted-foreground" />
+          Next runs
+          {tradingMode !== 'always' && <span className="font-normal text-muted-foreground">· {modeLabel}</span>}
+        </div>
+        {!previewValid ? (
+          <p className="text-xs text-muted-foreground">Enter a valid cron expression and timezone to preview runs.</p>
+        ) : nextRuns.length === 0 ? (
+          <p className="text-xs text-muted-foreground">This schedule never fires.</p>
+        ) : (
+          <ul className="space-y-0.5">
+            {nextRuns.map((run) => (
+              <li key={run.getTime()} className="text-xs font-mono text-muted-foreground">
+                {formatRunTime(run, edited.timezone)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="schedule-message">Agent message</Label>
+        <Textarea
+          id="schedule-message"
+          rows={3}
+          value={form.message}
+          onChange={(e) => setField('message', e.target.value)}
+          className="bg-background border-border"
+        />
+        {errors.message ? (
+          <p className="text-xs text-destructive">{errors.message}</p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Recipient and alert rules are appended automatically.
+          </p>
+        )}
+      </div>
+      {saveError && <div className="text-sm text-destructive">{saveError}</div>}
+      <div className="flex items-center gap-2 justify-end">
+        {saved && (
+          <span className="flex items-center gap-1 text-xs text-accent">
+            <CheckCircle2 className="w-4 h-4" />
+            Schedule updated
+          </span>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => {
+            setForm(toForm(schedule, baseCron))
+            setErrors({})
+          }}
+          disabled={changes.length === 0}
+        >
+          Reset
+        </Button>
+        <Button
+          onClick={handleReview}
+          disabled={changes.length === 0}
+          className="bg-primary text-white hover:bg-primary/90"
+        >
+          Review Changes
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+'use client'
+
+import * as React from 'react'
+import {
+  useScheduler,
+  cronToHuman,
+  findSchedulesOutsideMarketHours,
+  type BulkAction,
+  type BulkItemResult,
+} from '@/lib/scheduler'
+import { formatTimestamp } from '@/lib/stockAlert'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { Loader2, RefreshCw, Pause, Play, Zap, Trash2, MoonStar, X, CheckCircle2, XCircle, ListChecks } from 'lucide-react'
+
+interface ScheduleManagerProps {
+  agentId?: string
+  /** Watchlist symbol per schedule ID, used as the row label. */
+  symbolsBySchedule?: Record<string, string>
+  refreshKey?: number
+  onChanged?: (action: BulkAction, results: BulkItemResult[]) => void
+  className?: string
+}
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  pause: 'Paused',
+  resume: 'Resumed',
+  trigger: 'Triggered',
+  delete: 'Deleted',
+}
+
+export function ScheduleManager({ agentId, symbolsBySchedule = {}, refreshKey, onChanged, className }: ScheduleManagerProps) {
+  const scheduler = useScheduler()
+  const { schedules, bulkProgress } = scheduler
+  const [selected, setSelected] = React.useState<Set<string>>(new Set())
+  const fetchRef = React.useRef(scheduler.fetchSchedules)
+  fetchRef.current = scheduler.fetchSchedules
+
+  React.useEffect(() => {
+    fetchRef.current({ agentId })
+  }, [agentId, refreshKey])
+
+  // Drop selections for schedules that no longer exist
+  React.useEffect(() => {
+    setSelected(prev => new Set(Array.from(prev).filter(id => schedules.some(s => s.id === id))))
+  }, [schedules])
+
+  const running = !!bulkProgress && !bulkProgress.done
+  const outsideHours = findSchedulesOutsideMarketHours(schedules)
+  const allSelected = schedules.length > 0 && selected.size === schedules.length
+  const labelFor = (scheduleId: string) => symbolsBySchedule[scheduleId] ?? scheduleId.slice(-8)
+
+  const toggleOne = (scheduleId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(scheduleId)
+      else next.delete(scheduleId)
+      return next
+    })
+  }
+
+  const run = async (action: BulkAction, scheduleIds: string[]) => {
+    if (scheduleIds.length === 0) return
+    if (action === 'delete' && !window.confirm(`Permanently delete ${scheduleIds.length} schedule(s)?`)) return
+    const results = await scheduler.runBulk(action, scheduleIds)
+    setSelected(new Set())
+    onChanged?.(action, results)
+  }
+
+  const pauseOutsideHours = async () => {
+    const results = await scheduler.pauseOutsideMarketHours()
+    onChanged?.('pause', results)
+  }
+
+  const succeeded = bulkProgress?.results.filter(r => r.success).length ?? 0
+  const failed = bulkProgress ? bulkProgress.results.length - succeeded : 0
+
+  return (
+    <Card className={cn('bg-card border-border border rounded-sm', className)}>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <ListChecks className="w-4 h-4" />
+            All Schedules
+            <span className="text-xs font-normal text-muted-foreground">{scheduler.total}</span>
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={pauseOutsideHours}
+              disabled={running || outsideHours.length === 0}
+              title="Pause active schedules with any run in the next week outside regular market hours"
+            >
+              <MoonStar className="w-3 h-3 mr-1" />
+              Pause outside market hours ({outsideHours.length})
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => scheduler.fetchSchedules({ agentId })}
+              disabled={scheduler.loading || running}
+              aria-label="Refresh schedules"
+            >
+              <RefreshCw className={cn('w-4 h-4', scheduler.loading && 'animate-spin')} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Bulk actions */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground mr-1">{selected.size} selected</span>
+          {([
+            ['pause', Pause, 'Pause'],
+            ['resume', Play, 'Resume'],
+            ['trigger', Zap, 'Trigger'],
+            ['delete', Trash2, 'Delete'],
+          ] as const).map(([action, Icon, label]) => (
+            <Button
+              key={action}
+              variant="outline"
+              size="sm"
+              className={cn('h-7 text-xs', action === 'delete' && 'hover:text-destructive')}
+              disabled={running || selected.size === 0}
+              onClick={() => run(action, Array.from(selected))}
+            >
+              <Icon className="w-3 h-3 mr-1" />
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {/* Progress and result summary */}
+        {bulkProgress && (
+          <div className="rounded-sm border border-border bg-background/50 p-3 space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span>
+                {running
+                  ? `${ACTION_LABELS[bulkProgress.action]} ${bulkProgress.completed} of ${bulkProgress.total}…`
+                  : bulkProgress.total === 0
+                    ? 'Nothing to do'
+                    : `${ACTION_LABELS[bulkProgress.action]} ${succeeded} of ${bulkProgress.total}${failed ? ` · ${failed} failed` : ''}`}
+              </span>
+              {!running && (
+                <button
+                  type="button"
+                  onClick={scheduler.clearBulkProgress}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label="Dismiss results"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            <Progress value={bulkProgress.total ? (bulkProgress.completed / bulkProgress.total) * 100 : 100} className="h-1.5" />
+            {bulkProgress.results.length > 0 && (
+              <ul className="max-h-32 overflow-auto space-y-1">
+                {bulkProgress.results.map((result) => (
+                  <li key={result.scheduleId} className="flex items-start gap-2 text-xs">
+                    {result.success ? (
+                      <CheckCircle2 className="w-3 h-3 mt-0.5 shrink-0 text-accent" />
+                    ) : (
+                      <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-destructive" />
+                    )}
+                    <span className="font-medium">{labelFor(result.scheduleId)}</span>
+                    {result.error && <span className="text-destructive break-words">{result.error}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {scheduler.error && <div className="text-xs text-destructive">{scheduler.error}</div>}
+
+        {scheduler.loading && schedules.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">No schedules on this account</div>
+        ) : (
+          <div className="rounded-sm border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border">
+                  <TableHead className="h-9 w-8">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelected(checked ? new Set(schedules.map(s => s.id)) : new Set())}
+                      aria-label="Select all schedules"
+                    />
+                  </TableHead>
+                  <TableHead className="h-9 text-xs">Schedule</TableHead>
+                  <TableHead className="h-9 text-xs">Runs</TableHead>
+                  <TableHead className="h-9 text-xs">Status</TableHead>
+                  <TableHead className="h-9 text-xs">Next run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map((schedule) => (
+                  <TableRow key={schedule.id} className="border-border" data-state={selected.has(schedule.id) ? 'selected' : undefined}>
+                    <TableCell className="py-2">
+                      <Checkbox
+                        checked={selected.has(schedule.id)}
+                        onCheckedChange={(checked) => toggleOne(schedule.id, !!checked)}
+                        aria-label={`Select ${labelFor(schedule.id)}`}
+                      />
+                    </TableCell>
+                    <TableCell className="py-2">
+                      <div className="text-sm font-medium">{labelFor(schedule.id)}</div>
+                      <div className="text-xs font-mono text-muted-foreground">{schedule.id}</div>
+                    </TableCell>
+                    <TableCell className="py-2 text-xs">{cronToHuman(schedule.cron_expression)}</TableCell>
+                    <TableCell className="py-2">
+                      <Badge
+                        variant={schedule.is_active ? 'default' : 'secondary'}
+                        className={schedule.is_active ? 'bg-accent text-white text-xs' : 'bg-muted text-xs'}
+                      >
+                        {schedule.is_active ? 'Active' : 'Paused'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="py-2 text-xs">
+                      {schedule.is_active ? formatTimestamp(schedule.next_run_time ?? undefined) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import * as React from 'react'
+import { SCHEDULE_TEMPLATES, type ScheduleTemplate, type ScheduleTemplateId } from '@/lib/scheduleTemplates'
+import { cronToHuman } from '@/lib/scheduler'
+import { TRADING_MODES } from '@/lib/marketCalendar'
+import { cn } from '@/lib/utils'
+import { Sunrise, Bell, Timer, Sunset, RotateCcw, type LucideIcon } from 'lucide-react'
+
+interface ScheduleTemplateGalleryProps {
+  selectedId: ScheduleTemplateId | null
+  /** Called with null when the selected template is clicked again. */
+  onSelect: (template: ScheduleTemplate | null) => void
+  className?: string
+}
+
+const TEMPLATE_ICONS: Record<ScheduleTemplateId, LucideIcon> = {
+  'pre-market': Sunrise,
+  'market-open': Bell,
+  'intraday-5min': Timer,
+  'market-close': Sunset,
+}
+
+function formatRetries(template: ScheduleTemplate): string {
+  if (template.max_retries === 0) return 'No retries'
+  const delay = template.retry_delay >= 60 ? `${template.retry_delay / 60} min` : `${template.retry_delay}s`
+  return `${template.max_retries} ${template.max_retries === 1 ? 'retry' : 'retries'}, ${delay} apart`
+}
+
+export function ScheduleTemplateGallery({ selectedId, onSelect, className }: ScheduleTemplateGalleryProps) {
+  return (
+    <div className={cn('grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3', className)}>
+      {SCHEDULE_TEMPLATES.map((template) => {
+        const Icon = TEMPLATE_ICONS[template.id]
+        const isSelected = template.id === selectedId
+        const mode = template.trading_mode && TRADING_MODES.find(m => m.value === template.trading_mode)
+
+        return (
+          <button
+            key={template.id}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => onSelect(isSelected ? null : template)}
+            className={cn(
+              'p-3 rounded-sm border bg-background/50 hover:bg-background transition-colors text-left space-y-1',
+              isSelected ? 'border-primary' : 'border-border'
+            )}
+          >
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Icon className="w-4 h-4 text-primary shrink-0" />
+              {template.name}
+            </div>
+            <div className="text-xs text-muted-foreground">{template.description}</div>
+            <div className="text-xs">
+              {cronToHuman(template.cron_expression)} <span className="text-muted-foreground">ET</span>
+            </div>
+            <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+              <RotateCcw className="w-3 h-3" />
+              {formatRetries(template)}
+              {mode && <span>· {mode.label}</span>}
+            </div>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
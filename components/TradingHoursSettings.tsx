@@ -0,0 +1,103 @@
+'use client'
+
+import * as React from 'react'
+import type { Schedule } from '@/lib/scheduler'
+import { saveAlertSettings } from '@/lib/alertSettings'
+import {
+  TRADING_MODES,
+  getMarketStatus,
+  getNextTradingRuns,
+  type MarketStatus,
+  type TradingMode,
+} from '@/lib/marketCalendar'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, CheckCircle2 } from 'lucide-react'
+
+interface TradingHoursSettingsProps {
+  schedule: Schedule | null
+  mode: TradingMode
+  onSaved?: (mode: TradingMode, schedule?: Schedule) => void
+}
+
+const SESSION_LABELS: Record<MarketStatus['session'], string> = {
+  pre: 'Pre-market',
+  regular: 'Market open',
+  post: 'After hours',
+  closed: 'Market closed',
+}
+
+export function describeMarketStatus(status: MarketStatus): string {
+  if (status.holiday) return `${SESSION_LABELS.closed} (${status.holiday})`
+  return `${SESSION_LABELS[status.session]}${status.earlyClose ? ' · early close 13:00 ET' : ''}`
+}
+
+export function TradingHoursSettings({ schedule, mode, onSaved }: TradingHoursSettingsProps) {
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [saved, setSaved] = React.useState(false)
+
+  React.useEffect(() => {
+    setError(null)
+    setSaved(false)
+  }, [schedule?.id])
+
+  if (!schedule) return null
+
+  const nextRuns = getNextTradingRuns(schedule.cron_expression, schedule.timezone, mode, 3)
+
+  const handleChange = async (value: string) => {
+    const nextMode = value as TradingMode
+    setSaving(true)
+    setError(null)
+    setSaved(false)
+    const result = await saveAlertSettings(schedule.id, { trading_mode: nextMode })
+    if (result.success) {
+      setSaved(true)
+      onSaved?.(nextMode, result.schedule)
+    } else {
+      setError(result.error ?? 'Failed to save trading hours')
+    }
+    setSaving(false)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Run during</Label>
+        <span className="text-xs text-muted-foreground">{describeMarketStatus(getMarketStatus())}</span>
+      </div>
+      <Select value={mode} onValueChange={handleChange} disabled={saving}>
+        <SelectTrigger className="bg-background border-border">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TRADING_MODES.map((m) => (
+            <SelectItem key={m.value} value={m.value}>
+              {m.label} — {m.description}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        {nextRuns.length > 0
+          ? `Next trading runs: ${nextRuns
+              .map(run => run.toLocaleString('en-US', { timeZone: schedule.timezone, weekday: 'short', hour: '2-digit', minute: '2-digit' }))
+              .join(', ')}`
+          : 'No runs fall inside these hours.'}
+      </p>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      {saving ? (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Updating schedule…
+        </div>
+      ) : saved && (
+        <div className="flex items-center gap-1 text-xs text-accent">
+          <CheckCircle2 className="w-3 h-3" />
+          Trading hours applied to schedule
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import * as React from 'react'
+import { triggerAndTrack, type TrackedTrigger, type TriggerStatus, type RateLimitInfo } from '@/lib/scheduler'
+import { parseExecutionData, formatCurrency, formatPercentage } from '@/lib/stockAlert'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { Loader2, Play, CheckCircle2, XCircle, Clock, Timer } from 'lucide-react'
+
+interface TriggerButtonProps {
+  scheduleId: string | null
+  disabled?: boolean
+  onComplete?: (trigger: TrackedTrigger) => void
+}
+
+const STATUS_LABELS: Record<TriggerStatus, string> = {
+  pending: 'Sending…',
+  running: 'Running…',
+  success: 'Run succeeded',
+  failed: 'Run failed',
+  timeout: 'Timed out',
+}
+
+const RATE_LIMIT_NOTES: Record<RateLimitInfo['scope'], string> = {
+  trigger_cooldown: 'This schedule was triggered recently',
+  client: 'Too many scheduler changes from this browser',
+}
+
+function formatCooldown(seconds: number): string {
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : `${seconds}s`
+}
+
+function TriggerResult({ trigger, error }: { trigger: TrackedTrigger | null; error: string | null }) {
+  if (error && !trigger) return <div className="text-xs text-destructive">{error}</div>
+  if (!trigger) return null
+
+  if (trigger.status === 'pending' || trigger.status === 'running') {
+    return (
+      <div className="text-xs text-muted-foreground">
+        {trigger.attempt && trigger.attempt > 1
+          ? `Attempt ${trigger.attempt} failed, retrying…`
+          : 'Waiting for the agent run to be logged…'}
+      </div>
+    )
+  }
+
+  if (trigger.status === 'success' && trigger.execution) {
+    const data = parseExecutionData(trigger.execution)
+    return (
+      <div className="flex items-center gap-2 text-xs text-accent">
+        <CheckCircle2 className="w-3 h-3 shrink-0" />
+        {data ? (
+          <span>
+            {data.stock_symbol} {formatCurrency(data.current_price)} ({formatPercentage(data.daily_change_percentage)})
+            {data.email_sent ? ' · email sent' : ' · no email'}
+          </span>
+        ) : (
+          <span>Run completed, but the response could not be parsed</span>
+        )}
+      </div>
+    )
+  }
+
+  const Icon = trigger.status === 'timeout' ? Clock : XCircle
+  return (
+    <div className="flex items-start gap-2 text-xs text-destructive">
+      <Icon className="w-3 h-3 mt-0.5 shrink-0" />
+      <span className="break-words">{trigger.error ?? STATUS_LABELS[trigger.status]}</span>
+    </div>
+  )
+}
+
+export function TriggerButton({ scheduleId, disabled, onComplete }: TriggerButtonProps) {
+  const [trigger, setTrigger] = React.useState<TrackedTrigger | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [sending, setSending] = React.useState(false)
+  const [cooldownUntil, setCooldownUntil] = React.useState<number | null>(null)
+  const [rateLimit, setRateLimit] = React.useState<RateLimitInfo | null>(null)
+  const [now, setNow] = React.useState(() => Date.now())
+
+  // Forget the previous run when switching schedules
+  React.useEffect(() => {
+    setTrigger(null)
+    setError(null)
+    setCooldownUntil(null)
+    setRateLimit(null)
+  }, [scheduleId])
+
+  // Tick the cooldown countdown
+  React.useEffect(() => {
+    if (!cooldownUntil) return
+    const timer = setInterval(() => {
+      const current = Date.now()
+      setNow(current)
+      if (current >= cooldownUntil) {
+        setCooldownUntil(null)
+        setRateLimit(null)
+      }
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [cooldownUntil])
+
+  const inFlight = sending || trigger?.status === 'pending' || trigger?.status === 'running'
+  const cooldownSeconds = cooldownUntil ? Math.max(0, Math.ceil((cooldownUntil - now) / 1000)) : 0
+  const coolingDown = !inFlight && cooldownSeconds > 0
+
+  const handleClick = async () => {
+    if (!scheduleId) return
+    setSending(true)
+    setError(null)
+    setTrigger(null)
+    setRateLimit(null)
+
+    const result = await triggerAndTrack(scheduleId, {
+      onUpdate: (update) => {
+        setSending(false)
+        setTrigger(update)
+      },
+    })
+    setSending(false)
+    setNow(Date.now())
+    setCooldownUntil(result.cooldownUntil ?? null)
+    if (result.rateLimit) {
+      // The countdown on the button replaces the error text
+      setRateLimit(result.rateLimit)
+      return
+    }
+    if (result.trigger) {
+      setTrigger(result.trigger)
+      onComplete?.(result.trigger)
+    }
+    if (!result.success) setError(result.error ?? 'Failed to trigger alert')
+  }
+
+  const status: TriggerStatus | null = sending ? 'pending' : trigger?.status ?? null
+
+  return (
+    <div className="space-y-2">
+      <Button
+        onClick={handleClick}
+        disabled={disabled || inFlight || coolingDown || !scheduleId}
+        className={cn(
+          'w-full text-white',
+          status === 'success' ? 'bg-accent hover:bg-accent/90'
+            : status === 'failed' || status === 'timeout' ? 'bg-destructive hover:bg-destructive/90'
+            : 'bg-primary hover:bg-primary/90'
+        )}
+        size="sm"
+      >
+        {inFlight ? (
+          <Loader2 className="w-4 h-4 animate-spin mr-2" />
+        ) : coolingDown ? (
+          <Timer className="w-4 h-4 mr-2" />
+        ) : (
+          <Play className="w-4 h-4 mr-2" />
+        )}
+        {status && status !== 'success' && status !== 'failed' && status !== 'timeout'
+          ? STATUS_LABELS[status]
+          : coolingDown
+            ? `${status ? `${STATUS_LABELS[status]} · ` : ''}Trigger again in ${formatCooldown(cooldownSeconds)}`
+            : status ? `${STATUS_LABELS[status]} · Trigger Again` : 'Trigger Now'}
+      </Button>
+      {rateLimit && coolingDown && (
+        <div className="text-xs text-muted-foreground">{RATE_LIMIT_NOTES[rateLimit.scope]}</div>
+      )}
+      <TriggerResult trigger={trigger} error={error} />
+    </div>
+  )
+}
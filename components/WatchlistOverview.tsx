@@ -0,0 +1,203 @@
+'use client'
+
+import * as React from 'react'
+import { getScheduleLogs } from '@/lib/scheduler'
+import { toAlertHistoryItem, formatCurrency, formatPercentage, formatTimestamp, type StockAlertData } from '@/lib/stockAlert'
+import type { WatchlistEntry } from '@/lib/watchlist'
+import type { ScheduleTemplate } from '@/lib/scheduleTemplates'
+import { ScheduleTemplateGallery } from '@/components/ScheduleTemplateGallery'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { Loader2, Plus, X, LayoutGrid, LayoutTemplate } from 'lucide-react'
+
+interface WatchlistOverviewProps {
+  entries: WatchlistEntry[]
+  selectedSymbol: string | null
+  onSelect: (symbol: string) => void
+  onAdd: (symbol: string, template: ScheduleTemplate | null) => Promise<{ success: boolean; error?: string }>
+  onRemove: (entry: WatchlistEntry) => void
+  refreshKey?: number
+  busy?: boolean
+  className?: string
+}
+
+interface SymbolSnapshot {
+  loading: boolean
+  data: StockAlertData | null
+  lastRunFailed: boolean
+}
+
+export function WatchlistOverview({
+  entries,
+  selectedSymbol,
+  onSelect,
+  onAdd,
+  onRemove,
+  refreshKey,
+  busy,
+  className,
+}: WatchlistOverviewProps) {
+  const [snapshots, setSnapshots] = React.useState<Record<string, SymbolSnapshot>>({})
+  const [newSymbol, setNewSymbol] = React.useState('')
+  const [addError, setAddError] = React.useState<string | null>(null)
+  const [showTemplates, setShowTemplates] = React.useState(false)
+  const [template, setTemplate] = React.useState<ScheduleTemplate | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    entries.forEach(async (entry) => {
+      setSnapshots(prev => ({
+        ...prev,
+        [entry.symbol]: { loading: !prev[entry.symbol], data: prev[entry.symbol]?.data ?? null, lastRunFailed: false },
+      }))
+
+      const result = await getScheduleLogs(entry.schedule_id, { limit: 10 })
+      if (cancelled) return
+
+      const history = result.success ? result.executions.map(toAlertHistoryItem) : []
+      const latest = history.find(h => h.success && h.data)
+      setSnapshots(prev => ({
+        ...prev,
+        [entry.symbol]: {
+          loading: false,
+          data: latest?.data ?? null,
+          lastRunFailed: history.length > 0 && !history[0].success,
+        },
+      }))
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [entries, refreshKey])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newSymbol.trim()) return
+    setAddError(null)
+    const result = await onAdd(newSymbol, template)
+    if (result.success) {
+      setNewSymbol('')
+      setTemplate(null)
+      setShowTemplates(false)
+    } else {
+      setAddError(result.error ?? 'Failed to add symbol')
+    }
+  }
+
+  return (
+    <Card className={cn('bg-card border-border border rounded-sm', className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <LayoutGrid className="w-4 h-4" />
+            Watchlist
+          </CardTitle>
+          <form onSubmit={handleAdd} className="flex items-center gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={showTemplates || template ? 'secondary' : 'ghost'}
+              onClick={() => setShowTemplates(open => !open)}
+              aria-expanded={showTemplates}
+              className="h-8 text-xs"
+            >
+              <LayoutTemplate className="w-4 h-4 mr-1" />
+              {template ? template.name : 'Templates'}
+            </Button>
+            <Input
+              value={newSymbol}
+              onChange={(e) => setNewSymbol(e.target.value.toUpperCase())}
+              placeholder="Add symbol"
+              maxLength={10}
+              className="h-8 w-28 bg-background border-border text-sm"
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={busy || !newSymbol.trim()}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            </Button>
+          </form>
+        </div>
+        {addError && <div className="text-xs text-destructive">{addError}</div>}
+        {showTemplates && (
+          <div className="pt-2 space-y-2">
+            <div className="text-xs text-muted-foreground">
+              {template
+                ? `New symbols get the "${template.name}" schedule. Click it again to use the default.`
+                : 'Pick a template for the next symbol you add, or keep the default (every 5 minutes).'}
+            </div>
+            <ScheduleTemplateGallery selectedId={template?.id ?? null} onSelect={setTemplate} />
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">
+            No symbols on the watchlist yet
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+            {entries.map((entry) => {
+              const snapshot = snapshots[entry.symbol]
+              const data = snapshot?.data
+              const isPositive = (data?.daily_change_percentage ?? 0) >= 0
+              const isSelected = entry.symbol === selectedSymbol
+
+              return (
+                <div
+                  key={entry.symbol}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => onSelect(entry.symbol)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ' ') onSelect(entry.symbol)
+                  }}
+                  className={cn(
+                    'group relative p-3 rounded-sm border bg-background/50 hover:bg-background transition-colors cursor-pointer text-left',
+                    isSelected ? 'border-primary' : 'border-border'
+                  )}
+                >
+                  <button
+                    type="button"
+                    aria-label={`Remove ${entry.symbol}`}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onRemove(entry)
+                    }}
+                    className="absolute top-1 right-1 p-1 rounded-sm text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-destructive transition-opacity"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold">{entry.symbol}</span>
+                    {snapshot?.lastRunFailed && (
+                      <Badge variant="outline" className="border-destructive text-destructive text-[10px] px-1 py-0">
+                        Failed
+                      </Badge>
+                    )}
+                  </div>
+                  {!snapshot || snapshot.loading ? (
+                    <Loader2 className="w-4 h-4 mt-2 animate-spin text-primary" />
+                  ) : (
+                    <>
+                      <div className="text-lg font-medium mt-1">{formatCurrency(data?.current_price)}</div>
+                      <div className={cn('text-xs', data ? (isPositive ? 'text-accent' : 'text-destructive') : 'text-muted-foreground')}>
+                        {formatPercentage(data?.daily_change_percentage)}
+                      </div>
+                      <div className="text-[10px] text-muted-foreground mt-1 truncate">
+                        {data ? formatTimestamp(data.timestamp) : 'No data yet'}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
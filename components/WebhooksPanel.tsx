@@ -0,0 +1,258 @@
+'use client'
+
+import * as React from 'react'
+import {
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  setWebhookEnabled,
+  deleteWebhook,
+  type Webhook,
+} from '@/lib/scheduler'
+import { copyToClipboard } from '@/lib/clipboard'
+import { formatTimestamp } from '@/lib/stockAlert'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import { Loader2, Plus, Copy, Check, Trash2, Eye, RefreshCw, Webhook as WebhookIcon } from 'lucide-react'
+
+interface WebhooksPanelProps {
+  agentId: string
+  className?: string
+}
+
+function TriggerStatusBadge({ webhook }: { webhook: Webhook }) {
+  if (webhook.last_trigger_success === null) {
+    return <Badge variant="outline" className="text-[10px] px-1 py-0">Never run</Badge>
+  }
+  return webhook.last_trigger_success ? (
+    <Badge variant="outline" className="border-accent text-accent text-[10px] px-1 py-0">Succeeded</Badge>
+  ) : (
+    <Badge variant="outline" className="border-destructive text-destructive text-[10px] px-1 py-0">Failed</Badge>
+  )
+}
+
+export function WebhooksPanel({ agentId, className }: WebhooksPanelProps) {
+  const [webhooks, setWebhooks] = React.useState<Webhook[]>([])
+  const [loading, setLoading] = React.useState(true)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [description, setDescription] = React.useState('')
+  const [creating, setCreating] = React.useState(false)
+  const [copiedId, setCopiedId] = React.useState<string | null>(null)
+  const [inspected, setInspected] = React.useState<Webhook | null>(null)
+  const [inspecting, setInspecting] = React.useState(false)
+
+  const fetchWebhooks = React.useCallback(async () => {
+    setLoading(true)
+    const result = await listWebhooks(agentId)
+    if (result.success) {
+      setWebhooks(result.webhooks)
+      setError(null)
+    } else {
+      setError(result.error ?? 'Failed to load webhooks')
+    }
+    setLoading(false)
+  }, [agentId])
+
+  React.useEffect(() => {
+    fetchWebhooks()
+  }, [fetchWebhooks])
+
+  const replaceWebhook = (updated: Webhook) => {
+    setWebhooks(prev => prev.map(w => (w.id === updated.id ? updated : w)))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+    const result = await createWebhook({ agent_id: agentId, description: description.trim() })
+    if (result.success && result.webhook) {
+      setWebhooks(prev => [result.webhook!, ...prev])
+      setDescription('')
+    } else {
+      setError(result.error ?? 'Failed to create webhook')
+    }
+    setCreating(false)
+  }
+
+  const handleToggle = async (webhook: Webhook) => {
+    setBusyId(webhook.id)
+    setError(null)
+    const result = await setWebhookEnabled(webhook.id, !webhook.is_active)
+    if (result.success && result.webhook) {
+      replaceWebhook(result.webhook)
+    } else {
+      setError(result.error ?? 'Failed to update webhook')
+    }
+    setBusyId(null)
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete webhook "${webhook.description || webhook.id}"? Calls to its URL will stop working.`)) return
+    setBusyId(webhook.id)
+    setError(null)
+    const result = await deleteWebhook(webhook.id)
+    if (result.success) {
+      setWebhooks(prev => prev.filter(w => w.id !== webhook.id))
+    } else {
+      setError(result.error ?? 'Failed to delete webhook')
+    }
+    setBusyId(null)
+  }
+
+  const handleCopy = async (webhook: Webhook) => {
+    if (await copyToClipboard(webhook.webhook_url)) {
+      setCopiedId(webhook.id)
+      setTimeout(() => setCopiedId(current => (current === webhook.id ? null : current)), 2000)
+    } else {
+      setError('Could not copy the webhook URL')
+    }
+  }
+
+  const handleInspect = async (webhook: Webhook) => {
+    setInspected(webhook)
+    setInspecting(true)
+    const result = await getWebhook(webhook.id)
+    if (result.success && result.webhook) {
+      setInspected(result.webhook)
+      replaceWebhook(result.webhook)
+    }
+    setInspecting(false)
+  }
+
+  return (
+    <Card className={cn('bg-card border-border border rounded-sm', className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <WebhookIcon className="w-4 h-4 text-primary" />
+            Webhooks
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={fetchWebhooks} disabled={loading} aria-label="Refresh webhooks">
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (e.g. TradingView alert)"
+            className="h-8 bg-background border-border text-xs"
+          />
+          <Button type="submit" size="sm" disabled={creating} className="h-8 bg-primary text-white hover:bg-primary/90">
+            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          </Button>
+        </form>
+        {error && <div className="text-xs text-destructive">{error}</div>}
+
+        {loading && webhooks.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : webhooks.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">No webhooks for this agent</div>
+        ) : (
+          <div className="space-y-2">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="p-3 rounded-sm border border-border bg-background/50 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{webhook.description || 'Untitled webhook'}</div>
+                    <div className="text-xs font-mono text-muted-foreground truncate">{webhook.webhook_url}</div>
+                  </div>
+                  <Switch
+                    checked={webhook.is_active}
+                    onCheckedChange={() => handleToggle(webhook)}
+                    disabled={busyId === webhook.id}
+                    aria-label={webhook.is_active ? 'Disable webhook' : 'Enable webhook'}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span>{webhook.trigger_count} run{webhook.trigger_count === 1 ? '' : 's'}</span>
+                    <span>·</span>
+                    <span>{webhook.last_triggered_at ? formatTimestamp(webhook.last_triggered_at) : 'Never triggered'}</span>
+                    <TriggerStatusBadge webhook={webhook} />
+                  </div>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleCopy(webhook)} aria-label="Copy webhook URL">
+                      {copiedId === webhook.id ? <Check className="w-3 h-3 text-accent" /> : <Copy className="w-3 h-3" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleInspect(webhook)} aria-label="Inspect webhook">
+                      <Eye className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 hover:text-destructive"
+                      onClick={() => handleDelete(webhook)}
+                      disabled={busyId === webhook.id}
+                      aria-label="Delete webhook"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!inspected} onOpenChange={(open) => !open && setInspected(null)}>
+        <DialogContent className="bg-card border-border sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {inspected?.description || 'Webhook'}
+              {inspecting && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            </DialogTitle>
+          </DialogHeader>
+          {inspected && (
+            <div className="space-y-3 text-sm">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <div className="text-xs text-muted-foreground">Status</div>
+                  <div>{inspected.is_active ? 'Enabled' : 'Disabled'}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Trigger count</div>
+                  <div>{inspected.trigger_count}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Last triggered</div>
+                  <div>{inspected.last_triggered_at ? formatTimestamp(inspected.last_triggered_at) : 'Never'}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Last result</div>
+                  <TriggerStatusBadge webhook={inspected} />
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Created</div>
+                  <div>{formatTimestamp(inspected.created_at)}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Agent</div>
+                  <div className="font-mono text-xs truncate">{inspected.agent_id}</div>
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground mb-1">Raw</div>
+                <pre className="max-h-64 overflow-auto rounded-sm bg-background p-2 text-xs">
+                  {JSON.stringify(inspected, null, 2)}
+                </pre>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
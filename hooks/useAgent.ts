@@ -10,12 +10,32 @@
  *
  * // response is NormalizedAgentResponse:
  * // { status: 'success', result: {...}, message?: string }
+ *
+ * // Streaming: partialText fills in while the agent answers, response is set at the end
+ * const { callAgentStream, partialText, streaming, cancel } = useAgent({ agentId: 'xxx' })
+ *
+ * // Sessions: calls continue one conversation, kept in `messages` and on the server
+ * const { callAgent, messages, sessions, resumeSession, startNewSession } =
+ *   useAgent({ agent: 'Stock Alert Agent', sessionId: 'new' })
  * ```
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
-import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/lib/aiAgent'
+import {
+  callAIAgent,
+  callAIAgentStream,
+  extractText,
+  getAgentUserId,
+  getAgentSession,
+  listAgentSessions,
+  deleteAgentSession,
+  NormalizedAgentResponse,
+  AIAgentResponse,
+  AgentSessionSummary,
+  SessionMessage,
+} from '@/lib/aiAgent'
+import { getAgent } from '@/lib/registry'
 
 // =============================================================================
 // Types
@@ -35,13 +55,22 @@ interface ErrorDetails {
 
 interface UseAgentOptions {
   agentId?: string
+  /** Registry name (lib/registry.ts), used when no agentId is given. */
+  agent?: string
   onError?: (error: ErrorDetails) => void
   showErrorModal?: boolean
+  /**
+   * Turns on session mode: a session ID to resume, or 'new' to start a fresh
+   * conversation on the first call. Calls then carry this browser's user ID
+   * and the current session, and the history is kept in `messages`.
+   */
+  sessionId?: string
 }
 
 interface AgentCallOptions {
   message: string
   agentId?: string
+  agent?: string
   userId?: string
   sessionId?: string
 }
@@ -122,17 +151,79 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [error, setError] = useState<ErrorDetails | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
+  const [partialText, setPartialText] = useState('')
+  const [streaming, setStreaming] = useState(false)
+  const streamAbortRef = useRef<AbortController | null>(null)
+
+  const sessionMode = options.sessionId !== undefined
+  const [sessionId, setSessionId] = useState<string | null>(
+    options.sessionId && options.sessionId !== 'new' ? options.sessionId : null
+  )
+  const [messages, setMessages] = useState<SessionMessage[]>([])
+  const [sessions, setSessions] = useState<AgentSessionSummary[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  // Current session without waiting for a re-render, so back-to-back calls stay in one session
+  const sessionIdRef = useRef(sessionId)
+  sessionIdRef.current = sessionId
+  // Set when a call starts a session — its history is already in `messages`
+  const skipHistoryLoadRef = useRef<string | null>(null)
+
+  const refreshSessions = useCallback(async () => {
+    if (!sessionMode) return
+    const result = await listAgentSessions({ agentId: options.agentId, agent: options.agent })
+    if (result.success) setSessions(result.sessions)
+  }, [sessionMode, options.agentId, options.agent])
+
+  const refreshSessionsRef = useRef(refreshSessions)
+  refreshSessionsRef.current = refreshSessions
+
+  useEffect(() => {
+    refreshSessionsRef.current()
+  }, [])
 
-  const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
-    const finalAgentId = agentId || options.agentId || process.env.NEXT_PUBLIC_AGENT_ID
+  // Load the history whenever the session changes
+  useEffect(() => {
+    if (!sessionMode) return
+    if (sessionId && sessionId === skipHistoryLoadRef.current) {
+      skipHistoryLoadRef.current = null
+      return
+    }
+    if (!sessionId) {
+      setMessages([])
+      return
+    }
+
+    let cancelled = false
+    setHistoryLoading(true)
+    getAgentSession(sessionId).then((result) => {
+      if (cancelled) return
+      // A session that hasn't been used yet has no history on the server
+      setMessages(result.success && result.session ? result.session.messages : [])
+      setHistoryLoading(false)
+    })
+    return () => {
+      cancelled = true
+      setHistoryLoading(false)
+    }
+  }, [sessionMode, sessionId])
+
+  // Shared by callAgent and callAgentStream — `send` performs the request
+  const runCall = useCallback(async (
+    callOptions: AgentCallOptions,
+    send: (message: string, agentId: string) => Promise<AIAgentResponse>,
+    wasCancelled?: () => boolean
+  ): Promise<UseAgentResult> => {
+    const { message, agentId, agent } = callOptions
+    const agentName = agent || options.agent
+    const finalAgentId = agentId || options.agentId || (agentName && getAgent(agentName)?.agent_id) || process.env.NEXT_PUBLIC_AGENT_ID
 
     if (!finalAgentId) {
-      const err = createErrorDetails('api_error', 'No agent_id provided')
+      const reason = agentName ? `Unknown agent: ${agentName}` : 'No agent_id provided'
+      const err = createErrorDetails('api_error', reason)
       setError(err)
       return {
         success: false,
-        response: { status: 'error', result: {}, message: 'No agent_id provided' },
+        response: { status: 'error', result: {}, message: reason },
         error: err,
       }
     }
@@ -141,11 +232,12 @@ export const useAgent = (options: UseAgentOptions = {}) => {
     setError(null)
 
     try {
-      // Use the centralized callAIAgent which handles normalization
-      const result = await callAIAgent(message, finalAgentId, {
-        user_id: userId,
-        session_id: sessionId,
-      })
+      const result = await send(message, finalAgentId)
+
+      // A deliberate cancel isn't an error worth reporting
+      if (wasCancelled?.()) {
+        return { success: false, response: result.response }
+      }
 
       setLastResult(result)
       setResponse(result.response)
@@ -235,6 +327,119 @@ export const useAgent = (options: UseAgentOptions = {}) => {
     }
   }, [options])
 
+  // In session mode calls default to this browser's user and the current session.
+  // An explicit session_id also needs its owner's user_id, so it defaults too.
+  const sessionArgs = useCallback((callOptions: AgentCallOptions) => ({
+    user_id: callOptions.userId ?? (sessionMode || callOptions.sessionId ? getAgentUserId() : undefined),
+    session_id: callOptions.sessionId ?? (sessionMode ? sessionIdRef.current ?? undefined : undefined),
+  }), [sessionMode])
+
+  /**
+   * Session mode bookkeeping around one request: show the user's message right
+   * away, then the reply. Failed calls aren't recorded on the server, so their
+   * message is taken back out.
+   */
+  const trackSession = useCallback(async (
+    message: string,
+    request: () => Promise<AIAgentResponse>,
+    wasCancelled?: () => boolean
+  ) => {
+    if (!sessionMode) return request()
+
+    const pending: SessionMessage = {
+      id: `pending-${Date.now()}`,
+      role: 'user',
+      content: message,
+      timestamp: new Date().toISOString(),
+    }
+    setMessages(prev => [...prev, pending])
+
+    const result = await request()
+    if (!result.success || wasCancelled?.()) {
+      setMessages(prev => prev.filter(m => m !== pending))
+      return result
+    }
+
+    setMessages(prev => [...prev, {
+      id: `reply-${Date.now()}`,
+      role: 'assistant',
+      content: extractText(result.response) || JSON.stringify(result.response.result),
+      timestamp: result.timestamp ?? new Date().toISOString(),
+      status: result.response.status,
+      result: result.response.result,
+    }])
+    if (result.session_id && result.session_id !== sessionIdRef.current) {
+      sessionIdRef.current = result.session_id
+      skipHistoryLoadRef.current = result.session_id
+      setSessionId(result.session_id)
+    }
+    refreshSessions()
+    return result
+  }, [sessionMode, refreshSessions])
+
+  const callAgent = useCallback((callOptions: AgentCallOptions) => {
+    // Use the centralized callAIAgent which handles normalization
+    return runCall(callOptions, (message, agentId) =>
+      trackSession(message, () => callAIAgent(message, agentId, sessionArgs(callOptions)))
+    )
+  }, [runCall, trackSession, sessionArgs])
+
+  /**
+   * Like callAgent, but over the streaming endpoint: `partialText` grows as
+   * tokens arrive and `response` is set to the normalized result at the end.
+   * Starting a new stream cancels the previous one.
+   */
+  const callAgentStream = useCallback(async (callOptions: AgentCallOptions) => {
+    streamAbortRef.current?.abort()
+    const controller = new AbortController()
+    streamAbortRef.current = controller
+
+    setPartialText('')
+    setStreaming(true)
+    try {
+      const wasCancelled = () => controller.signal.aborted
+      return await runCall(callOptions, (message, agentId) =>
+        trackSession(message, () =>
+          callAIAgentStream(message, agentId, {
+            ...sessionArgs(callOptions),
+            signal: controller.signal,
+            onText: (text) => setPartialText(text),
+          }),
+          wasCancelled
+        ),
+        wasCancelled
+      )
+    } finally {
+      if (streamAbortRef.current === controller) {
+        streamAbortRef.current = null
+        setStreaming(false)
+      }
+    }
+  }, [runCall, trackSession, sessionArgs])
+
+  /** Stop the in-flight stream; the call resolves with a 'Request cancelled' error. */
+  const cancel = useCallback(() => {
+    streamAbortRef.current?.abort()
+  }, [])
+
+  const resumeSession = useCallback((id: string) => {
+    setSessionId(id)
+  }, [])
+
+  /** Clear the conversation; the next call starts a new session. */
+  const startNewSession = useCallback(() => {
+    setSessionId(null)
+  }, [])
+
+  const deleteSession = useCallback(async (id: string) => {
+    const result = await deleteAgentSession(id)
+    if (result.success) {
+      if (id === sessionIdRef.current) setSessionId(null)
+      await refreshSessions()
+    }
+    return result
+  }, [refreshSessions])
+
   const requestFix = useCallback(() => {
     if (error) {
       requestFixFromParent(error)
@@ -247,12 +452,24 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
   return {
     callAgent,
+    callAgentStream,
+    cancel,
     loading,
+    streaming,
+    partialText,
     error,
     response,
     lastResult,
     requestFix,
     clearError,
+    sessionId,
+    messages,
+    sessions,
+    historyLoading,
+    resumeSession,
+    startNewSession,
+    deleteSession,
+    refreshSessions,
   }
 }
 
@@ -0,0 +1,106 @@
+/**
+ * Activity
+ *
+ * Audit trail types shared with the server (lib/auditTrail.ts), plus the client
+ * helpers that read it from /api/scheduler/activity and keep the dashboard
+ * user's display name, which is sent with every schedule change so the audit
+ * trail can say who made it.
+ */
+
+// Types
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'pause'
+  | 'resume'
+  | 'trigger'
+  | 'delete'
+  | 'create-webhook'
+  | 'enable-webhook'
+  | 'disable-webhook'
+  | 'delete-webhook'
+  | 'update-settings'
+  | 'update-rules'
+
+export type AuditTargetType = 'schedule' | 'webhook'
+
+/** One mutating call through /api/scheduler, /api/settings or /api/alert-rules. */
+export interface AuditEntry {
+  id: string
+  timestamp: string
+  actor: string
+  ip: string | null
+  action: AuditAction
+  target_type: AuditTargetType
+  target_id: string | null
+  success: boolean
+  status: number
+  error: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created schedule',
+  update: 'Edited schedule',
+  pause: 'Paused',
+  resume: 'Resumed',
+  trigger: 'Triggered',
+  delete: 'Deleted schedule',
+  'create-webhook': 'Created webhook',
+  'enable-webhook': 'Enabled webhook',
+  'disable-webhook': 'Disabled webhook',
+  'delete-webhook': 'Deleted webhook',
+  'update-settings': 'Changed alert settings',
+  'update-rules': 'Changed alert rules',
+}
+
+const ACTOR_STORAGE_KEY = 'stock-alerts:actor'
+
+/** The display name this browser records changes under ('' when unset). */
+export function getActorName(): string {
+  try {
+    return localStorage.getItem(ACTOR_STORAGE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+export function setActorName(name: string) {
+  try {
+    if (name.trim()) localStorage.setItem(ACTOR_STORAGE_KEY, name.trim())
+    else localStorage.removeItem(ACTOR_STORAGE_KEY)
+  } catch {
+    // Storage unavailable (private mode) — changes are recorded as anonymous
+  }
+}
+
+/** Request headers identifying the actor. Header values must be ASCII, so the name is URI-encoded. */
+export function actorHeaders(): Record<string, string> {
+  const name = getActorName()
+  return name ? { 'X-Actor': encodeURIComponent(name) } : {}
+}
+
+/** Page through the audit trail, newest first. `actors` lists every actor on record. */
+export async function fetchActivity(params?: {
+  scheduleId?: string
+  action?: AuditAction
+  actor?: string
+  skip?: number
+  limit?: number
+}): Promise<{ success: boolean; entries: AuditEntry[]; total: number; actors: string[]; error?: string }> {
+  try {
+    const query = new URLSearchParams()
+    if (params?.scheduleId) query.set('scheduleId', params.scheduleId)
+    if (params?.action) query.set('action', params.action)
+    if (params?.actor) query.set('actor', params.actor)
+    if (params?.skip !== undefined) query.set('skip', String(params.skip))
+    if (params?.limit !== undefined) query.set('limit', String(params.limit))
+    const res = await fetch(`/api/scheduler/activity?${query}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, entries: [], total: 0, actors: [], error: data.error }
+    return { success: true, entries: data.entries || [], total: data.total ?? 0, actors: data.actors || [] }
+  } catch (error) {
+    return { success: false, entries: [], total: 0, actors: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * Agent Server Utility
+ *
+ * Server-side access to the Lyzr inference API, shared by the /api/agent route
+ * and the local scheduler engine. `openAgentStream` is the token-streaming
+ * variant used by /api/agent's stream mode, and `parseAgentReply` turns a raw
+ * reply into the normalized response both callers store and return.
+ *
+ * Every call is guarded:
+ *   - timeout       — each attempt is aborted after AGENT_TIMEOUT_MS (default 90s)
+ *   - retries       — 429 and 5xx responses are retried up to AGENT_MAX_RETRIES
+ *                     times (default 2) with exponential backoff and full
+ *                     jitter; 429 honours Retry-After. Timeouts and network
+ *                     errors are not retried: the POST isn't idempotent and
+ *                     the agent may already have acted (e.g. sent the email)
+ *   - circuit break — after AGENT_BREAKER_THRESHOLD consecutive failures
+ *                     (default 5) calls fail fast with a 503 for
+ *                     AGENT_BREAKER_COOLDOWN_MS (default 30s), then a single
+ *                     probe decides whether to close the circuit again. A
+ *                     probe that neither reports back nor aborts within
+ *                     AGENT_TIMEOUT_MS is treated as lost and another may go
+ *
+ * Breaker state lives in process memory, so it is per server instance.
+ *
+ * NEVER import this from client components — it uses LYZR_API_KEY.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import type { AgentUpstreamInfo, CircuitState, ModuleOutputs, NormalizedAgentResponse } from '@/lib/aiAgent'
+
+export const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+export const LYZR_STREAM_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+export const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] !== undefined && process.env[name] !== '' && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+const AGENT_TIMEOUT_MS = envNumber('AGENT_TIMEOUT_MS', 90 * 1000)
+const AGENT_MAX_RETRIES = envNumber('AGENT_MAX_RETRIES', 2)
+const RETRY_BASE_MS = 500
+const RETRY_MAX_MS = 8000
+const BREAKER_THRESHOLD = envNumber('AGENT_BREAKER_THRESHOLD', 5)
+const BREAKER_COOLDOWN_MS = envNumber('AGENT_BREAKER_COOLDOWN_MS', 30 * 1000)
+
+export interface AgentPayload {
+  message: string
+  agent_id: string
+  user_id: string
+  session_id: string
+  assets?: string[]
+}
+
+export interface AgentCallOptions {
+  /** Per-attempt timeout; defaults to AGENT_TIMEOUT_MS. */
+  timeoutMs?: number
+  /** Defaults to AGENT_MAX_RETRIES. */
+  maxRetries?: number
+  /** Caller cancellation (e.g. the client disconnected). Aborting rejects with an AbortError. */
+  signal?: AbortSignal
+}
+
+/** Raw upstream reply — the caller decides how to parse `rawText`. */
+export interface AgentReply {
+  ok: boolean
+  status: number
+  rawText: string
+  upstream: AgentUpstreamInfo
+  /** Set when upstream (429) or the open circuit (503) says when to try again. */
+  retryAfterMs?: number
+}
+
+// ---------------------------------------------------------------------------
+// Circuit breaker
+// ---------------------------------------------------------------------------
+
+const breaker = {
+  state: 'closed' as CircuitState,
+  failures: 0,
+  openedAt: 0,
+  /** When the in-flight half-open probe started, or null when there is none. */
+  probeStartedAt: null as number | null,
+}
+
+/**
+ * Whether an attempt may go out now; in half-open only one probe at a time.
+ * `probe` is set when this attempt is that probe, for releaseProbe.
+ */
+function breakerAllows(): { allowed: boolean; retryAfterMs: number; probe: number | null } {
+  const now = Date.now()
+  if (breaker.state === 'open') {
+    const remaining = breaker.openedAt + BREAKER_COOLDOWN_MS - now
+    if (remaining > 0) return { allowed: false, retryAfterMs: remaining, probe: null }
+    breaker.state = 'half-open'
+    breaker.probeStartedAt = null
+  }
+  if (breaker.state === 'half-open') {
+    const probeLive = breaker.probeStartedAt !== null && now - breaker.probeStartedAt < AGENT_TIMEOUT_MS
+    if (probeLive) return { allowed: false, retryAfterMs: 1000, probe: null }
+    breaker.probeStartedAt = now
+    return { allowed: true, retryAfterMs: 0, probe: now }
+  }
+  return { allowed: true, retryAfterMs: 0, probe: null }
+}
+
+/** Give up a probe that ended without an outcome (caller abort) so the next call can probe. */
+function releaseProbe(probe: number | null) {
+  if (probe !== null && breaker.probeStartedAt === probe) breaker.probeStartedAt = null
+}
+
+/**
+ * `failure` is upstream being unhealthy (network error, timeout, 5xx);
+ * `neutral` is a 429 — upstream is up, just busy.
+ */
+function recordOutcome(outcome: 'success' | 'failure' | 'neutral') {
+  breaker.probeStartedAt = null
+  if (outcome === 'success') {
+    breaker.state = 'closed'
+    breaker.failures = 0
+  } else if (outcome === 'failure') {
+    breaker.failures++
+    if (breaker.state === 'half-open' || breaker.failures >= BREAKER_THRESHOLD) {
+      breaker.state = 'open'
+      breaker.openedAt = Date.now()
+    }
+  } else if (breaker.state === 'half-open') {
+    // Treat a busy probe like a failed one so traffic doesn't stampede back
+    breaker.state = 'open'
+    breaker.openedAt = Date.now()
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Attempts
+// ---------------------------------------------------------------------------
+
+/** Statuses worth retrying: the request was rejected before the agent acted on it. */
+function isTransientStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/** Full-jitter exponential backoff: random in [0, min(max, base·2^retry)). */
+function backoffDelay(retry: number): number {
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * Math.pow(2, retry))
+}
+
+function abortError(): Error {
+  const error = new Error('Request aborted')
+  error.name = 'AbortError'
+  return error
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+type AttemptResult<T> =
+  | { kind: 'response'; status: number; ok: boolean; value: T; rawText: string; retryAfterMs?: number }
+  | { kind: 'timeout' }
+  | { kind: 'network'; message: string }
+
+/**
+ * One request. The timeout covers `read` as well, so it bounds the whole
+ * reply for JSON calls but only the headers for streams.
+ */
+async function attempt<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  read: (response: Response) => Promise<{ value: T; rawText: string; streaming?: boolean }>
+): Promise<AttemptResult<T>> {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+  let streaming = false
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal })
+    const { value, rawText, ...rest } = await read(response)
+    streaming = !!rest.streaming
+    return {
+      kind: 'response',
+      status: response.status,
+      ok: response.ok,
+      value,
+      rawText,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    }
+  } catch (error) {
+    if (signal?.aborted) throw abortError()
+    if (timedOut) return { kind: 'timeout' }
+    return { kind: 'network', message: error instanceof Error ? error.message : 'Network error' }
+  } finally {
+    clearTimeout(timer)
+    // A stream is still being read after we return; the caller's abort must keep reaching it
+    if (!streaming) signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+function failureText(detail: string): string {
+  return JSON.stringify({ detail })
+}
+
+/**
+ * Run attempts until one succeeds, fails permanently, or retries run out.
+ * Never rejects for upstream trouble — timeouts and network errors come back
+ * as 504/502 replies without a retry — only for caller aborts.
+ */
+async function callUpstream<T>(
+  url: string,
+  payload: AgentPayload,
+  options: AgentCallOptions,
+  read: (response: Response) => Promise<{ value: T; rawText: string; streaming?: boolean }>,
+  extraHeaders?: Record<string, string>
+): Promise<AgentReply & { value?: T }> {
+  const timeoutMs = options.timeoutMs ?? AGENT_TIMEOUT_MS
+  const maxRetries = options.maxRetries ?? AGENT_MAX_RETRIES
+  const started = Date.now()
+  const init: RequestInit = {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+      ...extraHeaders,
+    },
+    body: JSON.stringify(payload),
+  }
+
+  let attempts = 0
+  let timedOut = false
+  let last: AgentReply & { value?: T } | null = null
+
+  const info = (): AgentUpstreamInfo => ({
+    attempts,
+    retries: Math.max(0, attempts - 1),
+    duration_ms: Date.now() - started,
+    timed_out: timedOut,
+    circuit: breaker.state,
+  })
+
+  while (true) {
+    const gate = breakerAllows()
+    if (!gate.allowed) {
+      // Keep the last real failure if the circuit opened mid-call
+      if (last) return { ...last, upstream: info() }
+      return {
+        ok: false,
+        status: 503,
+        rawText: failureText(`Agent service unavailable after repeated failures; retry in ${Math.ceil(gate.retryAfterMs / 1000)}s`),
+        upstream: info(),
+        retryAfterMs: gate.retryAfterMs,
+      }
+    }
+
+    attempts++
+    let result: AttemptResult<T>
+    try {
+      result = await attempt(url, init, timeoutMs, options.signal, read)
+    } catch (error) {
+      // Caller abort: no outcome to record, but the probe slot must not stay taken
+      releaseProbe(gate.probe)
+      throw error
+    }
+    let retryAfterMs: number | undefined
+
+    if (result.kind === 'response') {
+      const transient = isTransientStatus(result.status)
+      recordOutcome(!transient ? 'success' : result.status === 429 ? 'neutral' : 'failure')
+      retryAfterMs = result.retryAfterMs
+      last = { ok: result.ok, status: result.status, rawText: result.rawText, value: result.value, upstream: null, retryAfterMs }
+      if (!transient) return { ...last, upstream: info() }
+    } else {
+      // Upstream may have received the message, so report instead of retrying
+      recordOutcome('failure')
+      timedOut = result.kind === 'timeout'
+      last = result.kind === 'timeout'
+        ? { ok: false, status: 504, rawText: failureText(`Agent did not respond within ${Math.round(timeoutMs / 1000)}s`), upstream: null }
+        : { ok: false, status: 502, rawText: failureText(result.message), upstream: null }
+      return { ...last, upstream: info() }
+    }
+
+    const retry = attempts - 1
+    if (retry >= maxRetries) return { ...last, upstream: info() }
+
+    const delay = Math.max(backoffDelay(retry), retryAfterMs ?? 0)
+    // Upstream asked for longer than we're willing to wait — report it instead
+    if (delay > RETRY_MAX_MS) return { ...last, upstream: info() }
+    await sleep(delay, options.signal)
+  }
+}
+
+/** POST a message to the inference API. Only caller aborts reject. */
+export async function sendAgentMessage(payload: AgentPayload, options: AgentCallOptions = {}): Promise<AgentReply> {
+  const { value: _, ...reply } = await callUpstream(LYZR_API_URL, payload, options, async (response) => {
+    const rawText = await response.text()
+    return { value: null, rawText }
+  })
+  return reply
+}
+
+/**
+ * POST a message to the streaming endpoint. On success `body` is the upstream
+ * SSE stream — one `data:` frame per token chunk, ending with `[DONE]`. On an
+ * HTTP error `body` is null and `rawText` holds the error payload. Retries
+ * only happen before the first byte; the timeout covers the headers only.
+ */
+export async function openAgentStream(
+  payload: AgentPayload,
+  options: AgentCallOptions = {}
+): Promise<AgentReply & { body: ReadableStream<Uint8Array> | null }> {
+  const reply = await callUpstream(
+    LYZR_STREAM_URL,
+    payload,
+    options,
+    async (response) => {
+      if (response.ok && response.body) return { value: response.body, rawText: '', streaming: true }
+      return { value: null, rawText: await response.text() }
+    },
+    { Accept: 'text/event-stream' }
+  )
+
+  const { value, ...rest } = reply
+  if (reply.ok && !value) {
+    return { ...rest, ok: false, status: 502, rawText: failureText('Agent stream returned no body'), body: null }
+  }
+  return { ...rest, body: value ?? null }
+}
+
+// ---------------------------------------------------------------------------
+// Reply parsing
+// ---------------------------------------------------------------------------
+
+function normalizeResponse(parsed: any): NormalizedAgentResponse {
+  if (!parsed) {
+    return {
+      status: 'error',
+      result: {},
+      message: 'Empty response from agent',
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed },
+      message: parsed,
+    }
+  }
+
+  if (typeof parsed !== 'object') {
+    return {
+      status: 'success',
+      result: { value: parsed },
+      message: String(parsed),
+    }
+  }
+
+  if ('status' in parsed && 'result' in parsed) {
+    return {
+      status: parsed.status === 'error' ? 'error' : 'success',
+      result: parsed.result || {},
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('status' in parsed) {
+    const { status, message, metadata, ...rest } = parsed
+    return {
+      status: status === 'error' ? 'error' : 'success',
+      result: Object.keys(rest).length > 0 ? rest : {},
+      message,
+      metadata,
+    }
+  }
+
+  if ('result' in parsed) {
+    const r = parsed.result
+    const msg = parsed.message
+      ?? (typeof r === 'string' ? r : null)
+      ?? (r && typeof r === 'object'
+          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
+          : null)
+    return {
+      status: 'success',
+      result: typeof r === 'string' ? { text: r } : (r || {}),
+      message: typeof msg === 'string' ? msg : undefined,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('message' in parsed && typeof parsed.message === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed.message },
+      message: parsed.message,
+    }
+  }
+
+  if ('response' in parsed) {
+    return normalizeResponse(parsed.response)
+  }
+
+  return {
+    status: 'success',
+    result: parsed,
+    message: undefined,
+    metadata: undefined,
+  }
+}
+
+/** Parse a raw inference reply into the normalized response and its module outputs. */
+export function parseAgentReply(rawText: string): { response: NormalizedAgentResponse; moduleOutputs?: ModuleOutputs } {
+  // Parse the Lyzr API envelope first to extract module_outputs
+  // before parseLLMJson unwraps through the "response" key and loses siblings
+  let moduleOutputs: ModuleOutputs | undefined
+  let agentResponseRaw: any = rawText
+
+  try {
+    const envelope = JSON.parse(rawText)
+    if (envelope && typeof envelope === 'object' && 'response' in envelope) {
+      moduleOutputs = envelope.module_outputs
+      agentResponseRaw = envelope.response
+    }
+  } catch {
+    // Not standard JSON envelope, fall through — parseLLMJson will handle it
+  }
+
+  // Now parse only the agent's response with LLM JSON recovery
+  const parsed = parseLLMJson(agentResponseRaw)
+
+  // If parseLLMJson couldn't find JSON, the agent returned plain text — that's valid.
+  // Pass the raw agent response to normalizeResponse which handles strings.
+  const toNormalize =
+    parsed && typeof parsed === 'object' && parsed.success === false && parsed.data === null
+      ? agentResponseRaw
+      : parsed
+
+  return { response: normalizeResponse(toNormalize), moduleOutputs }
+}
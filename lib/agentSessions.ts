@@ -0,0 +1,156 @@
+/**
+ * Agent Sessions (server-side)
+ *
+ * Conversation history for /api/agent, kept in the server JSON store. A
+ * session belongs to one user and one agent; its session_id is what the
+ * upstream inference API keys its conversation context on, so sending the
+ * same session_id again resumes the conversation.
+ *
+ * Each session keeps its last MAX_MESSAGES turns; past MAX_SESSIONS the least
+ * recently active sessions are dropped.
+ *
+ * NEVER import this from client components.
+ */
+
+import { randomUUID } from 'crypto'
+import { readStore, updateStore } from '@/lib/serverStore'
+import type { AgentSession, AgentSessionSummary, NormalizedAgentResponse, SessionMessage } from '@/lib/aiAgent'
+
+const STORE_NAME = 'agent-sessions'
+const MAX_SESSIONS = 2000
+const MAX_MESSAGES = 200
+const TITLE_LENGTH = 60
+
+type SessionStore = Record<string, AgentSession>
+
+export function newSessionId(agentId: string): string {
+  return `${agentId}-${randomUUID().replace(/-/g, '').slice(0, 12)}`
+}
+
+function toTitle(message: string): string {
+  const line = message.trim().split('\n')[0]
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line
+}
+
+function assistantText(response: NormalizedAgentResponse): string {
+  if (response.message) return response.message
+  if (typeof response.result?.text === 'string') return response.result.text
+  return JSON.stringify(response.result ?? {})
+}
+
+export function summarizeSession(session: AgentSession): AgentSessionSummary {
+  const { messages, ...rest } = session
+  const last = messages[messages.length - 1]
+  return { ...rest, message_count: messages.length, last_message: last ? last.content : null }
+}
+
+/** Keep the most recently active sessions once the store outgrows MAX_SESSIONS. */
+function prune(store: SessionStore): SessionStore {
+  const sessions = Object.keys(store).map(id => store[id])
+  if (sessions.length <= MAX_SESSIONS) return store
+  return sessions
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .slice(0, MAX_SESSIONS)
+    .reduce<SessionStore>((acc, session) => ({ ...acc, [session.session_id]: session }), {})
+}
+
+export async function getSession(sessionId: string): Promise<AgentSession | null> {
+  const store = await readStore<SessionStore>(STORE_NAME, {})
+  return store[sessionId] ?? null
+}
+
+/**
+ * Why `userId` may not use `session` for `agentId`, or null when it may.
+ * Returns the HTTP status to answer with alongside the message.
+ */
+export function checkSessionAccess(
+  session: AgentSession,
+  userId: string,
+  agentId?: string
+): { status: number; error: string } | null {
+  if (session.user_id !== userId) return { status: 403, error: 'Session belongs to another user' }
+  if (agentId && session.agent_id !== agentId) {
+    return { status: 409, error: `Session ${session.session_id} is for agent ${session.agent_id}` }
+  }
+  return null
+}
+
+/** A user's sessions, most recently active first. */
+export async function listSessions(params: { userId: string; agentId?: string }): Promise<AgentSessionSummary[]> {
+  const store = await readStore<SessionStore>(STORE_NAME, {})
+  return Object.keys(store)
+    .map(id => store[id])
+    .filter(session => session.user_id === params.userId)
+    .filter(session => !params.agentId || session.agent_id === params.agentId)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .map(summarizeSession)
+}
+
+/** Create an empty session; the first recorded exchange sets its title. */
+export async function createSession(params: { userId: string; agentId: string; title?: string }): Promise<AgentSession> {
+  const now = new Date().toISOString()
+  const session: AgentSession = {
+    session_id: newSessionId(params.agentId),
+    user_id: params.userId,
+    agent_id: params.agentId,
+    title: params.title ? toTitle(params.title) : '',
+    created_at: now,
+    updated_at: now,
+    messages: [],
+  }
+  await updateStore<SessionStore>(STORE_NAME, {}, (current) => prune({ ...current, [session.session_id]: session }))
+  return session
+}
+
+/**
+ * Append a user message and the agent's reply, creating the session if this
+ * is its first call.
+ */
+export async function recordExchange(params: {
+  sessionId: string
+  userId: string
+  agentId: string
+  message: string
+  response: NormalizedAgentResponse
+}): Promise<AgentSession> {
+  const now = new Date().toISOString()
+  const turns: SessionMessage[] = [
+    { id: randomUUID(), role: 'user', content: params.message, timestamp: now },
+    {
+      id: randomUUID(),
+      role: 'assistant',
+      content: assistantText(params.response),
+      timestamp: now,
+      status: params.response.status,
+      result: params.response.result,
+    },
+  ]
+
+  let recorded: AgentSession | null = null
+  await updateStore<SessionStore>(STORE_NAME, {}, (current) => {
+    const existing = current[params.sessionId]
+    recorded = {
+      session_id: params.sessionId,
+      user_id: existing?.user_id ?? params.userId,
+      agent_id: existing?.agent_id ?? params.agentId,
+      title: existing?.title || toTitle(params.message),
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+      messages: [...(existing?.messages ?? []), ...turns].slice(-MAX_MESSAGES),
+    }
+    return prune({ ...current, [params.sessionId]: recorded })
+  })
+  return recorded!
+}
+
+/** Remove a session. Returns false when it didn't exist. */
+export async function deleteSession(sessionId: string): Promise<boolean> {
+  let found = false
+  await updateStore<SessionStore>(STORE_NAME, {}, (current) => {
+    if (!current[sessionId]) return current
+    found = true
+    const { [sessionId]: _, ...rest } = current
+    return rest
+  })
+  return found
+}
@@ -14,12 +14,32 @@
  * if (result.success) {
  *   console.log(result.response.result)
  * }
+ *
+ * // Streaming: partial text as it arrives, the normalized response at the end
+ * const streamed = await callAIAgentStream('Hello!', 'agent-id', {
+ *   onText: (text) => setDraft(text),
+ * })
  * ```
  */
 
 import { useState } from 'react'
+import { createSSEParser, readTextStream } from './sse'
+import type { ResponseSchemaViolation } from './responseSchemas'
 
 // Types
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/** How the server's call to the upstream agent API went. */
+export interface AgentUpstreamInfo {
+  attempts: number
+  retries: number
+  duration_ms: number
+  /** Whether any attempt hit the timeout. */
+  timed_out: boolean
+  /** Circuit breaker state after the call. */
+  circuit: CircuitState
+}
+
 export interface NormalizedAgentResponse {
   status: 'success' | 'error'
   result: Record<string, any>
@@ -27,6 +47,7 @@ export interface NormalizedAgentResponse {
   metadata?: {
     agent_name?: string
     timestamp?: string
+    upstream?: AgentUpstreamInfo
     [key: string]: any
   }
 }
@@ -51,10 +72,40 @@ export interface AIAgentResponse {
   session_id?: string
   timestamp?: string
   raw_response?: string
+  /** Present when the agent has a registered response schema; empty when the result conforms. */
+  schema_violations?: ResponseSchemaViolation[]
   error?: string
   details?: string
 }
 
+/** One turn of a conversation session. */
+export interface SessionMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  timestamp: string
+  /** Assistant turns only. */
+  status?: 'success' | 'error'
+  result?: Record<string, any>
+}
+
+/** A conversation with one agent, owned by one user, persisted on the server. */
+export interface AgentSession {
+  session_id: string
+  user_id: string
+  agent_id: string
+  /** The first message, truncated. */
+  title: string
+  created_at: string
+  updated_at: string
+  messages: SessionMessage[]
+}
+
+export interface AgentSessionSummary extends Omit<AgentSession, 'messages'> {
+  message_count: number
+  last_message: string | null
+}
+
 export interface UploadedFile {
   asset_id: string
   file_name: string
@@ -112,6 +163,153 @@ export async function callAIAgent(
   }
 }
 
+export interface AgentStreamOptions {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Called for every token chunk with all text received so far and the new chunk. */
+  onText?: (text: string, delta: string) => void
+  signal?: AbortSignal
+}
+
+function streamFailure(message: string, raw_response?: string): AIAgentResponse {
+  return {
+    success: false,
+    response: { status: 'error', result: {}, message },
+    error: message,
+    raw_response,
+  }
+}
+
+/**
+ * Call the AI Agent in streaming mode. Partial text is reported through
+ * `onText` while the agent is still answering; the promise resolves with the
+ * same AIAgentResponse callAIAgent returns once the stream ends.
+ */
+export async function callAIAgentStream(
+  message: string,
+  agent_id: string,
+  options?: AgentStreamOptions
+): Promise<AIAgentResponse> {
+  try {
+    const response = await fetch('/api/agent', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({
+        message,
+        agent_id,
+        user_id: options?.user_id,
+        session_id: options?.session_id,
+        assets: options?.assets,
+        stream: true,
+      }),
+      signal: options?.signal,
+    })
+
+    // Validation and upstream HTTP errors come back as plain JSON
+    const contentType = response.headers.get('content-type') || ''
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      return await response.json()
+    }
+
+    let text = ''
+    let result: AIAgentResponse | null = null
+    const parser = createSSEParser(({ event, data }) => {
+      if (event === 'delta') {
+        const delta: string = JSON.parse(data).text ?? ''
+        text += delta
+        options?.onText?.(text, delta)
+      } else if (event === 'done' || event === 'error') {
+        result = JSON.parse(data)
+      }
+    })
+
+    await readTextStream(response.body, chunk => parser.push(chunk))
+    parser.flush()
+
+    return result ?? streamFailure('Stream ended before the agent finished', text || undefined)
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      return streamFailure('Request cancelled')
+    }
+    return streamFailure(error instanceof Error ? error.message : 'Network error')
+  }
+}
+
+const AGENT_USER_STORAGE_KEY = 'stock-alerts:agent-user'
+let fallbackUserId: string | null = null
+
+/**
+ * The user ID this browser's agent sessions are stored under, created on first
+ * use. Falls back to a per-page-load ID when storage is unavailable.
+ */
+export function getAgentUserId(): string {
+  const generate = () =>
+    `user-${typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`}`
+  try {
+    let userId = localStorage.getItem(AGENT_USER_STORAGE_KEY)
+    if (!userId) {
+      userId = generate()
+      localStorage.setItem(AGENT_USER_STORAGE_KEY, userId)
+    }
+    return userId
+  } catch {
+    fallbackUserId = fallbackUserId ?? generate()
+    return fallbackUserId
+  }
+}
+
+/** This user's sessions, most recently active first. */
+export async function listAgentSessions(params?: {
+  agentId?: string
+  /** Registry name, used when no agentId is given. */
+  agent?: string
+}): Promise<{ success: boolean; sessions: AgentSessionSummary[]; error?: string }> {
+  try {
+    const query = new URLSearchParams({ user_id: getAgentUserId() })
+    if (params?.agentId) query.set('agent_id', params.agentId)
+    else if (params?.agent) query.set('agent', params.agent)
+    const res = await fetch(`/api/agent/sessions?${query}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, sessions: [], error: data.error }
+    return { success: true, sessions: data.sessions || [] }
+  } catch (error) {
+    return { success: false, sessions: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** One session with its full message history. */
+export async function getAgentSession(sessionId: string): Promise<{ success: boolean; session?: AgentSession; error?: string }> {
+  try {
+    const query = new URLSearchParams({ session_id: sessionId, user_id: getAgentUserId() })
+    const res = await fetch(`/api/agent/sessions?${query}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, session: data.session }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+export async function deleteAgentSession(sessionId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetch('/api/agent/sessions', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ session_id: sessionId, user_id: getAgentUserId() }),
+    })
+    const data = await res.json()
+    return data.success ? { success: true } : { success: false, error: data.error }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
 /**
  * Upload files via server-side API route
  */
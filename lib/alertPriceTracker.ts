@@ -0,0 +1,80 @@
+/**
+ * Alert Price Tracker (server-side)
+ *
+ * Records the prices the price-based alert rules compare against — the latest
+ * run's price and the price of the latest emailed alert — in the schedule's
+ * settings, and re-syncs the schedule message so the next run's instructions
+ * carry them (see buildRuleInstructions in lib/alertRules.ts).
+ *
+ * The local engine reports each run as it's logged. Hosted runs are only seen
+ * by polling, so for the upstream backend a timer reads the latest logs of
+ * every schedule with a price-based rule every ALERT_PRICE_POLL_MS (default
+ * 60s) — well inside a 5-minute cadence.
+ *
+ * NEVER import this from client components.
+ */
+
+import { getSchedulerBackend, SCHEDULER_BACKEND } from '@/lib/schedulerBackend'
+import { getScheduleSettings, listScheduleSettings, saveScheduleSettings, syncScheduleMessage } from '@/lib/scheduleSettings'
+import { needsRulePrices, type RulePrices } from '@/lib/alertRules'
+import { parseExecutionData } from '@/lib/stockAlert'
+import type { ExecutionLog } from '@/lib/scheduler'
+
+const POLL_INTERVAL_MS = Number(process.env.ALERT_PRICE_POLL_MS) || 60 * 1000
+const LOG_PAGE_SIZE = 20
+
+// Kept on globalThis so a hot-reloaded copy of this module reuses the timer
+const tracker = globalThis as typeof globalThis & { __alertPriceTicker?: ReturnType<typeof setInterval> }
+
+/**
+ * Record the prices from a schedule's new execution logs (any order) and push
+ * them into its message. Logs at or before the last recorded run are ignored.
+ */
+export async function recordExecutionPrices(scheduleId: string, logs: ExecutionLog[]): Promise<void> {
+  const settings = await getScheduleSettings(scheduleId)
+  if (!needsRulePrices(settings.rules)) return
+
+  const since = settings.prices_recorded_at ? new Date(settings.prices_recorded_at).getTime() : 0
+  const fresh = logs
+    .filter(log => log.success && new Date(log.executed_at).getTime() > since)
+    .sort((a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime())
+
+  let prices: RulePrices & { prices_recorded_at?: string } = {}
+  for (const log of fresh) {
+    const data = parseExecutionData(log)
+    if (data?.current_price === undefined) continue
+    prices = {
+      ...prices,
+      last_run_price: data.current_price,
+      ...(data.email_sent && { last_alert_price: data.current_price }),
+      prices_recorded_at: log.executed_at,
+    }
+  }
+  if (!prices.prices_recorded_at) return
+
+  await saveScheduleSettings(scheduleId, prices)
+  const synced = await syncScheduleMessage(scheduleId)
+  if (!synced.success) console.error(`Failed to push alert prices to ${scheduleId}:`, synced.error)
+}
+
+async function poll() {
+  const backend = getSchedulerBackend()
+  for (const settings of await listScheduleSettings()) {
+    if (!needsRulePrices(settings.rules)) continue
+    try {
+      const logs = await backend.getLogs(settings.schedule_id, { limit: LOG_PAGE_SIZE })
+      if (logs.success && logs.data) await recordExecutionPrices(settings.schedule_id, logs.data.executions)
+    } catch (error) {
+      console.error(`Alert price tracking failed for ${settings.schedule_id}:`, error)
+    }
+  }
+}
+
+/** Start polling hosted execution logs (idempotent, including across hot reloads). No-op for the local backend. */
+export function startAlertPriceTracker() {
+  if (SCHEDULER_BACKEND !== 'upstream' || tracker.__alertPriceTicker) return
+  tracker.__alertPriceTicker = setInterval(() => {
+    poll().catch(error => console.error('Alert price poll failed:', error))
+  }, POLL_INTERVAL_MS)
+  poll().catch(error => console.error('Alert price poll failed:', error))
+}
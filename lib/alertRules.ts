@@ -0,0 +1,210 @@
+/**
+ * Alert Rules
+ *
+ * Threshold rules that decide when the Stock Alert Agent actually emails.
+ * Rules are stored server-side per schedule (see /api/alert-rules) and injected
+ * into the schedule message; the dashboard re-evaluates them against the
+ * execution history to show which rule fired for each alert.
+ *
+ * Each run is a fresh agent session, so the agent can't remember earlier
+ * prices. Crossings and moves are judged against prices the server records
+ * after every run (lib/alertPriceTracker.ts) and writes into the instructions.
+ */
+
+import { actorHeaders } from '@/lib/activity'
+import type { AlertHistoryItem } from '@/lib/stockAlert'
+
+// Types
+export type AlertRuleType =
+  | 'daily_change_abs' // |daily_change_percentage| >= threshold
+  | 'price_above' // price crosses above threshold
+  | 'price_below' // price crosses below threshold
+  | 'move_since_last_alert' // |% move since last emailed price| >= threshold
+
+export interface AlertRule {
+  id: string
+  type: AlertRuleType
+  threshold: number
+  enabled: boolean
+}
+
+/** Prices recorded from a schedule's earlier runs, for the rules that compare against them. */
+export interface RulePrices {
+  /** current_price of the latest successful run. */
+  last_run_price?: number
+  /** current_price of the latest run that sent an email. */
+  last_alert_price?: number
+}
+
+/** Rule types whose instructions carry recorded prices. */
+export const PRICE_TRACKING_RULE_TYPES: AlertRuleType[] = ['price_above', 'price_below', 'move_since_last_alert']
+
+export function needsRulePrices(rules: AlertRule[]): boolean {
+  return rules.some(rule => rule.enabled && PRICE_TRACKING_RULE_TYPES.includes(rule.type))
+}
+
+export const ALERT_RULE_TYPES: { value: AlertRuleType; label: string; unit: '%' | '$' }[] = [
+  { value: 'daily_change_abs', label: 'Daily change at least', unit: '%' },
+  { value: 'price_above', label: 'Price crosses above', unit: '$' },
+  { value: 'price_below', label: 'Price crosses below', unit: '$' },
+  { value: 'move_since_last_alert', label: 'Move since last alert at least', unit: '%' },
+]
+
+/** Human-readable description of a rule, e.g. "|Δ%| ≥ 2%". */
+export function describeAlertRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'daily_change_abs':
+      return `|daily change| ≥ ${rule.threshold}%`
+    case 'price_above':
+      return `price crosses above $${rule.threshold}`
+    case 'price_below':
+      return `price crosses below $${rule.threshold}`
+    case 'move_since_last_alert':
+      return `move since last alert ≥ ${rule.threshold}%`
+  }
+}
+
+/** Validate a rule list coming from the client. Returns an error message or null. */
+export function validateAlertRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) return 'rules must be an array'
+  const ids = new Set<string>()
+  for (const rule of rules) {
+    if (!rule || typeof rule !== 'object') return 'Each rule must be an object'
+    if (typeof rule.id !== 'string' || !rule.id) return 'Each rule needs an id'
+    if (ids.has(rule.id)) return `Duplicate rule id "${rule.id}"`
+    ids.add(rule.id)
+    if (!ALERT_RULE_TYPES.some(t => t.value === rule.type)) return `Unknown rule type "${rule.type}"`
+    if (typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold) || rule.threshold < 0) {
+      return `Rule "${rule.id}" needs a non-negative numeric threshold`
+    }
+    if (typeof rule.enabled !== 'boolean') return `Rule "${rule.id}" needs an enabled flag`
+  }
+  return null
+}
+
+/**
+ * Agent instructions for a rule set. Empty when no rule is enabled, in which
+ * case the agent keeps emailing on every run. A crossing is only a crossing
+ * relative to the previous run's price, so once the price is past a level it
+ * stops matching until it comes back. Before any run is recorded the previous
+ * close stands in for it.
+ */
+export function buildRuleInstructions(rules: AlertRule[], prices: RulePrices = {}): string {
+  const enabled = rules.filter(r => r.enabled)
+  if (enabled.length === 0) return ''
+
+  const previous = prices.last_run_price !== undefined
+    ? `the previous run's price (${prices.last_run_price})`
+    : 'the previous close (current_price - daily_change_amount)'
+
+  const lines = enabled.map(rule => {
+    switch (rule.type) {
+      case 'daily_change_abs':
+        return `- ${rule.id}: the absolute value of daily_change_percentage is at least ${rule.threshold}`
+      case 'price_above':
+        return `- ${rule.id}: current_price is at or above ${rule.threshold} and ${previous} was below ${rule.threshold}`
+      case 'price_below':
+        return `- ${rule.id}: current_price is at or below ${rule.threshold} and ${previous} was above ${rule.threshold}`
+      case 'move_since_last_alert':
+        return prices.last_alert_price !== undefined
+          ? `- ${rule.id}: current_price moved at least ${rule.threshold}% from ${prices.last_alert_price}, the price in the last alert email`
+          : `- ${rule.id}: always matches — no alert email has been sent yet`
+    }
+  })
+
+  return [
+    'Alert rules — only send the email when at least one of these rules matches:',
+    ...lines,
+    'Always return the JSON result. When no rule matches, do not send an email and set "email_sent" to false.',
+    'Set "triggered_rule" to the id of the first matching rule, or null when none matched.',
+  ].join('\n')
+}
+
+/**
+ * Work out which rule fired for each history item by replaying the rules over
+ * the history (oldest first). Prefers the rule the agent reported itself.
+ * Returns a map of history item id → fired rule (null when none fired).
+ */
+export function evaluateAlertRules(
+  history: AlertHistoryItem[],
+  rules: AlertRule[]
+): Record<string, AlertRule | null> {
+  const enabled = rules.filter(r => r.enabled)
+  const fired: Record<string, AlertRule | null> = {}
+  if (enabled.length === 0) return fired
+
+  const chronological = [...history].sort(
+    (a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime()
+  )
+
+  let lastAlertPrice: number | null = null
+  let lastRunPrice: number | null = null
+  for (const item of chronological) {
+    const data = item.data
+    if (!item.success || !data || data.current_price === undefined) {
+      fired[item.id] = null
+      continue
+    }
+
+    const reported = data.triggered_rule ? enabled.find(r => r.id === data.triggered_rule) : undefined
+    const price = data.current_price
+    // Same reference the injected instructions use: the previous run, else the previous close
+    const previousPrice = lastRunPrice ?? (data.daily_change_amount !== undefined ? price - data.daily_change_amount : null)
+
+    const match = reported ?? enabled.find(rule => {
+      switch (rule.type) {
+        case 'daily_change_abs':
+          return Math.abs(data.daily_change_percentage ?? 0) >= rule.threshold
+        case 'price_above':
+          return price >= rule.threshold && previousPrice !== null && previousPrice < rule.threshold
+        case 'price_below':
+          return price <= rule.threshold && previousPrice !== null && previousPrice > rule.threshold
+        case 'move_since_last_alert':
+          return lastAlertPrice === null || Math.abs((price - lastAlertPrice) / lastAlertPrice) * 100 >= rule.threshold
+      }
+    })
+
+    fired[item.id] = match ?? null
+    lastRunPrice = price
+    if (data.email_sent) lastAlertPrice = price
+  }
+
+  return fired
+}
+
+// ---------------------------------------------------------------------------
+// API client
+// ---------------------------------------------------------------------------
+
+/** Load the rules stored for a schedule. */
+export async function fetchAlertRules(
+  scheduleId: string
+): Promise<{ success: boolean; rules: AlertRule[]; error?: string }> {
+  try {
+    const res = await fetch(`/api/alert-rules?scheduleId=${encodeURIComponent(scheduleId)}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, rules: [], error: data.error }
+    return { success: true, rules: data.rules || [] }
+  } catch (error) {
+    return { success: false, rules: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Save the rules for a schedule and inject them into its message upstream. */
+export async function saveAlertRules(
+  scheduleId: string,
+  rules: AlertRule[]
+): Promise<{ success: boolean; rules: AlertRule[]; error?: string; details?: string }> {
+  try {
+    const res = await fetch('/api/alert-rules', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...actorHeaders() },
+      body: JSON.stringify({ scheduleId, rules }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, rules, error: data.error, details: data.details }
+    return { success: true, rules: data.rules || [] }
+  } catch (error) {
+    return { success: false, rules, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
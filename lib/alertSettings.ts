@@ -0,0 +1,59 @@
+'use client'
+
+/**
+ * Alert Settings Client Utility
+ *
+ * Client-side wrapper for the /api/settings route. Settings are stored
+ * server-side per schedule and injected into the schedule's agent message.
+ */
+
+import { actorHeaders } from '@/lib/activity'
+import type { Schedule } from '@/lib/scheduler'
+import type { TradingMode } from '@/lib/marketCalendar'
+
+// Types
+export interface AlertSettings {
+  recipient_email: string | null
+  trading_mode: TradingMode
+  /** Paused outside its trading hours; resumes when the next session opens. */
+  trading_paused: boolean
+  /** The schedule's cron as the user wrote it, before trading-hours narrowing. */
+  base_cron: string | null
+  updated_at: string | null
+}
+
+/** Load the settings stored for a schedule. */
+export async function fetchAlertSettings(
+  scheduleId: string
+): Promise<{ success: boolean; settings?: AlertSettings; error?: string }> {
+  try {
+    const res = await fetch(`/api/settings?scheduleId=${encodeURIComponent(scheduleId)}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, settings: data.settings }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Save the recipient email and/or trading mode and update the schedule upstream.
+ * `delivered` is true once the schedule's message carries the new address.
+ */
+export async function saveAlertSettings(
+  scheduleId: string,
+  settings: { recipient_email?: string; trading_mode?: TradingMode }
+): Promise<{ success: boolean; settings?: AlertSettings; schedule?: Schedule; delivered?: boolean; error?: string }> {
+  try {
+    const res = await fetch('/api/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...actorHeaders() },
+      body: JSON.stringify({ scheduleId, ...settings }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, settings: data.settings, schedule: data.schedule, delivered: data.delivered }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
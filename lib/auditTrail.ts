@@ -0,0 +1,62 @@
+/**
+ * Audit Trail (server-side)
+ *
+ * Append-only record of every mutating /api/scheduler call, and of the
+ * /api/settings and /api/alert-rules changes that rewrite a schedule — who
+ * made it, what it did, and the target's state before and after — kept in the
+ * server JSON store (newest first, capped at MAX_ENTRIES).
+ *
+ * The dashboard has no login, so the actor is the display name the browser
+ * sends in the X-Actor header (see lib/activity.ts), plus the client IP.
+ *
+ * NEVER import this from client components.
+ */
+
+import { randomUUID } from 'crypto'
+import { readStore, updateStore } from '@/lib/serverStore'
+import type { AuditEntry, AuditAction } from '@/lib/activity'
+
+const STORE_NAME = 'audit-log'
+const MAX_ENTRIES = 10000
+const MAX_ACTOR_LENGTH = 80
+export const ANONYMOUS_ACTOR = 'anonymous'
+
+/** Actor name and client IP for a request. */
+export function getRequestActor(request: Request): { actor: string; ip: string | null } {
+  let actor = ''
+  try {
+    actor = decodeURIComponent(request.headers.get('x-actor') ?? '').trim().slice(0, MAX_ACTOR_LENGTH)
+  } catch {
+    // Malformed encoding — treat as anonymous
+  }
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || null
+  return { actor: actor || ANONYMOUS_ACTOR, ip }
+}
+
+export async function recordAudit(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+  const recorded: AuditEntry = { id: randomUUID(), timestamp: new Date().toISOString(), ...entry }
+  await updateStore<AuditEntry[]>(STORE_NAME, [], (current) => [recorded, ...current].slice(0, MAX_ENTRIES))
+  return recorded
+}
+
+export async function listAudit(params: {
+  scheduleId?: string
+  action?: AuditAction
+  actor?: string
+  skip?: number
+  limit?: number
+}): Promise<{ entries: AuditEntry[]; total: number; actors: string[] }> {
+  const all = await readStore<AuditEntry[]>(STORE_NAME, [])
+  const matching = all
+    .filter(entry => !params.scheduleId || (entry.target_type === 'schedule' && entry.target_id === params.scheduleId))
+    .filter(entry => !params.action || entry.action === params.action)
+    .filter(entry => !params.actor || entry.actor === params.actor)
+
+  const skip = params.skip ?? 0
+  const limit = params.limit ?? 50
+  return {
+    entries: matching.slice(skip, skip + limit),
+    total: matching.length,
+    actors: Array.from(new Set(all.map(entry => entry.actor))).sort(),
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * Cron Parser
+ *
+ * Standard 5-field cron expressions (minute hour day-of-month month day-of-week):
+ * parsing, validation, human-readable descriptions and next fire times in an
+ * IANA timezone. Re-exported from lib/scheduler.ts; kept in its own module so
+ * API routes can import it too.
+ *
+ * Supported syntax per field: `*`, `?`, values, ranges (`1-5`), steps (`*\/15`,
+ * `9-17/2`, `5/10`), comma lists, month names (JAN-DEC) and day names (SUN-SAT).
+ * Day-of-week 7 is Sunday. When both day-of-month and day-of-week are
+ * restricted, a day matches if either does (Vixie cron semantics).
+ */
+
+// Types
+type CronItem =
+  | { kind: 'all' }
+  | { kind: 'value'; value: number }
+  | { kind: 'range'; from: number; to: number }
+  | { kind: 'step'; from: number; to: number; step: number; fromAll: boolean }
+
+export interface CronField {
+  raw: string
+  items: CronItem[]
+  values: number[]
+  /** True when the field is `*` or `?` (matches every value). */
+  isAll: boolean
+}
+
+export interface ParsedCron {
+  expression: string
+  minute: CronField
+  hour: CronField
+  dayOfMonth: CronField
+  month: CronField
+  dayOfWeek: CronField
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+]
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const upper = token.toUpperCase()
+  const nameIndex = spec.names?.indexOf(upper) ?? -1
+  if (nameIndex !== -1) return nameIndex + (spec.name === 'month' ? 1 : 0)
+  if (!/^\d+$/.test(token)) throw new Error(`Invalid ${spec.name} value "${token}"`)
+  const value = parseInt(token, 10)
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${capitalize(spec.name)} value ${value} is out of range (${spec.min}-${spec.max})`)
+  }
+  return value
+}
+
+function parseField(raw: string, spec: FieldSpec): CronField {
+  const items: CronItem[] = []
+  const values = new Set<number>()
+
+  for (const part of raw.split(',')) {
+    if (!part) throw new Error(`Empty list entry in ${spec.name} field`)
+    const [base, stepToken, extra] = part.split('/')
+    if (extra !== undefined) throw new Error(`Invalid step in ${spec.name} field "${part}"`)
+
+    let from = spec.min
+    let to = spec.max
+    let item: CronItem
+
+    if (base === '*' || base === '?') {
+      item = { kind: 'all' }
+    } else if (base.includes('-')) {
+      const [a, b] = base.split('-')
+      from = parseValue(a, spec)
+      to = parseValue(b, spec)
+      if (from > to) throw new Error(`Invalid ${spec.name} range "${base}"`)
+      item = { kind: 'range', from, to }
+    } else {
+      from = parseValue(base, spec)
+      // `5/10` means "from 5 through the end of the range, every 10"
+      to = stepToken !== undefined ? spec.max : from
+      item = { kind: 'value', value: from }
+    }
+
+    if (stepToken !== undefined) {
+      if (!/^\d+$/.test(stepToken) || parseInt(stepToken, 10) === 0) {
+        throw new Error(`Invalid step "${stepToken}" in ${spec.name} field`)
+      }
+      const step = parseInt(stepToken, 10)
+      item = { kind: 'step', from, to, step, fromAll: base === '*' || base === '?' }
+      for (let v = from; v <= to; v += step) values.add(v)
+    } else {
+      for (let v = from; v <= to; v++) values.add(v)
+    }
+    items.push(item)
+  }
+
+  // Day-of-week 7 is an alias for Sunday
+  if (spec.name === 'day of week' && values.has(7)) {
+    values.delete(7)
+    values.add(0)
+  }
+
+  const isAll = items.some(i => i.kind === 'all')
+  return {
+    raw,
+    items,
+    values: Array.from(values).sort((a, b) => a - b),
+    isAll,
+  }
+}
+
+/** Parse a 5-field cron expression. */
+export function parseCron(expression: string): { valid: boolean; cron?: ParsedCron; error?: string } {
+  if (!expression || typeof expression !== 'string') return { valid: false, error: 'Cron expression is required' }
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    return { valid: false, error: 'Cron expression must have 5 fields (minute hour day month weekday)' }
+  }
+
+  try {
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, i) => parseField(part, FIELD_SPECS[i]))
+    return { valid: true, cron: { expression: parts.join(' '), minute, hour, dayOfMonth, month, dayOfWeek } }
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Invalid cron expression' }
+  }
+}
+
+/** Validate a cron expression. Returns an error message, or null when valid. */
+export function validateCron(expression: string): string | null {
+  return parseCron(expression).error ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Human-readable descriptions
+// ---------------------------------------------------------------------------
+
+function joinList(parts: string[]): string {
+  if (parts.length <= 1) return parts.join('')
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+/** Describe a field's items, expanding steps that don't start from `*`. */
+function describeItems(field: CronField, format: (n: number) => string): string {
+  const parts = field.items.flatMap(item => {
+    switch (item.kind) {
+      case 'value':
+        return [format(item.value)]
+      case 'range':
+        return [`${format(item.from)} through ${format(item.to)}`]
+      case 'step': {
+        const values: string[] = []
+        for (let v = item.from; v <= item.to; v += item.step) values.push(format(v))
+        return values
+      }
+      default:
+        return []
+    }
+  })
+  return joinList(parts)
+}
+
+function isSingleStepFromAll(field: CronField): CronItem | null {
+  return field.items.length === 1 && field.items[0].kind === 'step' && field.items[0].fromAll ? field.items[0] : null
+}
+
+function describeDaysOfWeek(field: CronField): string {
+  const values = field.values.join(',')
+  if (values === '1,2,3,4,5') return 'weekdays'
+  if (values === '0,6') return 'weekends'
+  return describeItems(field, n => DAY_NAMES[n % 7])
+}
+
+function describeTimeOfDay(cron: ParsedCron): { fixedTimes: string[] | null; phrase: string } {
+  const { minute, hour } = cron
+
+  // Fixed times of day, e.g. "09:30 and 16:05"
+  const minuteFixed = !minute.isAll && minute.values.length === 1
+  const hourFixed = !hour.isAll && hour.values.length <= 6
+  if (minuteFixed && hourFixed) {
+    return { fixedTimes: hour.values.map(h => `${pad(h)}:${pad(minute.values[0])}`), phrase: '' }
+  }
+
+  const minuteStep = isSingleStepFromAll(minute)
+  const hourStep = isSingleStepFromAll(hour)
+
+  let minutePhrase: string
+  if (minute.isAll) {
+    minutePhrase = 'every minute'
+  } else if (minuteStep && minuteStep.kind === 'step') {
+    minutePhrase = `every ${minuteStep.step} minutes`
+  } else if (minuteFixed) {
+    const mm = pad(minute.values[0])
+    if (hour.isAll) return { fixedTimes: null, phrase: `every hour at :${mm}` }
+    if (hourStep && hourStep.kind === 'step') return { fixedTimes: null, phrase: `every ${hourStep.step} hours at :${mm}` }
+    minutePhrase = `at :${mm}`
+  } else if (minute.items.length === 1 && minute.items[0].kind === 'range') {
+    minutePhrase = `every minute from :${pad(minute.items[0].from)} through :${pad(minute.items[0].to)}`
+  } else {
+    minutePhrase = `at minutes ${describeItems(minute, n => `:${pad(n)}`)}`
+  }
+
+  let hourPhrase = ''
+  if (hourStep && hourStep.kind === 'step') {
+    hourPhrase = `every ${hourStep.step} hours`
+  } else if (!hour.isAll) {
+    const ranges = hour.items.every(i => i.kind === 'range')
+    hourPhrase = ranges
+      ? `between ${joinList(hour.items.map(i => (i.kind === 'range' ? `${pad(i.from)}:00 and ${pad(i.to)}:59` : '')))}`
+      : `during the ${describeItems(hour, n => `${pad(n)}:00`)} hour${hour.values.length === 1 ? '' : 's'}`
+  }
+
+  return { fixedTimes: null, phrase: [minutePhrase, hourPhrase].filter(Boolean).join(', ') }
+}
+
+/** Describe a parsed cron expression, e.g. "Every 15 minutes, between 09:00 and 16:59, on weekdays". */
+export function describeCron(cron: ParsedCron): string {
+  const { dayOfMonth, month, dayOfWeek } = cron
+  const time = describeTimeOfDay(cron)
+
+  const domPhrase = dayOfMonth.isAll
+    ? ''
+    : `on day${dayOfMonth.values.length === 1 ? '' : 's'} ${describeItems(dayOfMonth, String)} of the month`
+  const dowLabel = dayOfWeek.isAll ? '' : describeDaysOfWeek(dayOfWeek)
+  const monthPhrase = month.isAll ? '' : `in ${describeItems(month, n => MONTH_NAMES[n - 1])}`
+
+  if (time.fixedTimes) {
+    const at = `at ${joinList(time.fixedTimes)}`
+    let lead: string
+    if (!domPhrase && !dowLabel) {
+      lead = `Every day ${at}`
+    } else if (!domPhrase) {
+      lead = dayOfWeek.values.length === 1 ? `Every ${dowLabel} ${at}` : `${capitalize(dowLabel)} ${at}`
+    } else {
+      lead = `${capitalize(at)}, ${domPhrase}${dowLabel ? ` or on ${dowLabel}` : ''}`
+    }
+    return [lead, monthPhrase].filter(Boolean).join(', ')
+  }
+
+  const dayPhrase = domPhrase && dowLabel ? `${domPhrase} or on ${dowLabel}` : domPhrase || (dowLabel ? `on ${dowLabel}` : '')
+  return capitalize([time.phrase, dayPhrase, monthPhrase].filter(Boolean).join(', '))
+}
+
+// ---------------------------------------------------------------------------
+// Next fire times
+// ---------------------------------------------------------------------------
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+export interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  weekday: number
+}
+
+/** Wall-clock fields of `date` in `timeZone`. */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  }
+}
+
+/**
+ * The instant the wall clock in `timeZone` reads `year-month-day hour:minute`.
+ * A time skipped by spring-forward resolves to the same offset after the gap.
+ */
+export function zonedTimeToDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const target = Date.UTC(year, month - 1, day, hour, minute)
+  let t = target
+  // Two corrections settle the offset, including across a DST change
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(t), timeZone)
+    t += target - Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+  }
+  return new Date(t)
+}
+
+function matchesDay(cron: ParsedCron, parts: ZonedParts): boolean {
+  if (!cron.month.values.includes(parts.month)) return false
+  const domMatch = cron.dayOfMonth.values.includes(parts.day)
+  const dowMatch = cron.dayOfWeek.values.includes(parts.weekday)
+  if (cron.dayOfMonth.isAll) return dowMatch
+  if (cron.dayOfWeek.isAll) return domMatch
+  return domMatch || dowMatch
+}
+
+// Two years of hour-by-hour scanning is enough for any satisfiable expression
+const MAX_ITERATIONS = 2 * 366 * 24 * 3
+
+/**
+ * Find the next `count` fire times of `cron` in `timeZone`, strictly after
+ * `from`. Runs rejected by `accept` are skipped and don't count.
+ *
+ * Time is scanned in real (UTC) minutes and matched against the wall clock, so
+ * DST transitions behave like cron: wall times skipped by spring-forward never
+ * fire, and a fixed-hour job fires once when fall-back repeats an hour — every
+ * wall time it matched that day is remembered, not just the last one. E.g.
+ * every 15 minutes of the 1 AM hour in America/New_York, from
+ * 2026-11-01T04:00Z, fires at 05:00-05:45Z (1:00-1:45 EDT) and next at
+ * 06:00Z on Nov 2; the repeated hour (06:00-06:45Z, EST) is skipped.
+ */
+export function findCronRuns(
+  cron: ParsedCron,
+  timeZone: string,
+  count: number,
+  from: Date = new Date(),
+  accept?: (run: Date) => boolean
+): Date[] {
+  const runs: Date[] = []
+  let t = Math.floor(from.getTime() / 60000) * 60000 + 60000
+  // Wall times already fired today, for fixed-hour jobs
+  const dedupeRepeatedWallTime = !cron.hour.isAll
+  let matchedDay = ''
+  const matchedWallTimes = new Set<string>()
+
+  for (let i = 0; i < MAX_ITERATIONS && runs.length < count; i++) {
+    const parts = getZonedParts(new Date(t), timeZone)
+
+    // Skip to the next local hour when the day or hour doesn't match
+    if (!matchesDay(cron, parts) || !cron.hour.values.includes(parts.hour)) {
+      t += (60 - parts.minute) * 60000
+      continue
+    }
+
+    const nextMinute = cron.minute.values.find(m => m >= parts.minute)
+    if (nextMinute === undefined) {
+      t += (60 - parts.minute) * 60000
+      continue
+    }
+    if (nextMinute > parts.minute) {
+      t += (nextMinute - parts.minute) * 60000
+      continue
+    }
+
+    const day = `${parts.year}-${parts.month}-${parts.day}`
+    if (day !== matchedDay) {
+      matchedDay = day
+      matchedWallTimes.clear()
+    }
+    const wallTime = `${parts.hour}:${parts.minute}`
+    if (!(dedupeRepeatedWallTime && matchedWallTimes.has(wallTime))) {
+      matchedWallTimes.add(wallTime)
+      const run = new Date(t)
+      if (!accept || accept(run)) runs.push(run)
+    }
+    t += 60000
+  }
+  return runs
+}
+
+/** The next `count` fire times of a cron expression in `timeZone` after `from`. */
+export function getNextRuns(
+  expression: string,
+  timeZone: string = 'UTC',
+  count: number = 5,
+  from: Date = new Date()
+): Date[] {
+  const { cron } = parseCron(expression)
+  return cron ? findCronRuns(cron, timeZone, count, from) : []
+}
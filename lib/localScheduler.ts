@@ -0,0 +1,357 @@
+/**
+ * Local Scheduler Engine (server-side)
+ *
+ * The `local` scheduler backend: schedules and execution logs live in the
+ * server JSON store and runs are fired in-process. A timer checks every
+ * LOCAL_SCHEDULER_TICK_MS (default 15s) for active schedules whose
+ * next_run_time has passed and sends their message to the agent — the same
+ * call /api/agent makes. Failed attempts are retried `max_retries` times,
+ * `retry_delay` seconds apart, and every attempt is logged.
+ *
+ * A run missed while the server was down fires once on the next tick; the
+ * schedule then continues from the current time. Runs that fall outside the
+ * schedule's trading mode (lib/scheduleSettings.ts) are skipped, not fired.
+ *
+ * Each run holds a lease in the store (lib/serverStore.ts) from the moment
+ * it's claimed until its last attempt, so a second server instance — or a
+ * ticker left behind by a hot reload — can't fire the same run again, and a
+ * manual trigger can't overlap a run in progress.
+ *
+ * NEVER import this from client components.
+ */
+
+import { randomUUID } from 'crypto'
+import { readStore, updateStore, acquireLease, releaseLease } from '@/lib/serverStore'
+import { sendAgentMessage, parseAgentReply, LYZR_API_KEY } from '@/lib/agentServer'
+import { getNextRuns } from '@/lib/cron'
+import { isWithinTradingMode, getNextTradingRuns, type TradingMode } from '@/lib/marketCalendar'
+import { getScheduleSettings } from '@/lib/scheduleSettings'
+import { recordExecutionPrices } from '@/lib/alertPriceTracker'
+import { validateScheduleFields, type EditableScheduleFields } from '@/lib/scheduleValidation'
+import type { Schedule, ExecutionLog } from '@/lib/scheduler'
+import type {
+  SchedulerBackend,
+  SchedulerResult,
+  ScheduleInput,
+  ScheduleListParams,
+  RecentExecutionParams,
+} from '@/lib/schedulerBackend'
+
+const SCHEDULES_STORE = 'local-schedules'
+const EXECUTIONS_STORE = 'local-executions'
+const TICK_MS = Number(process.env.LOCAL_SCHEDULER_TICK_MS) || 15000
+const MAX_STORED_EXECUTIONS = 5000
+const LOCAL_USER_ID = 'local'
+// Longest an agent call can take (its timeout plus slack) when sizing run leases
+const ATTEMPT_ALLOWANCE_MS = 120 * 1000
+
+type ScheduleStore = Record<string, Schedule>
+
+// Kept on globalThis so a hot-reloaded copy of this module reuses the timer
+const engine = globalThis as typeof globalThis & { __localSchedulerTicker?: ReturnType<typeof setInterval> }
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function notFound<T>(): SchedulerResult<T> {
+  return { success: false, status: 404, error: 'Schedule not found' }
+}
+
+function nextRunTime(schedule: Pick<Schedule, 'cron_expression' | 'timezone'>, from: Date = new Date()): string | null {
+  const [next] = getNextRuns(schedule.cron_expression, schedule.timezone, 1, from)
+  return next ? next.toISOString() : null
+}
+
+function page<T>(items: T[], skip: number = 0, limit?: number): T[] {
+  return limit === undefined ? items.slice(skip) : items.slice(skip, skip + limit)
+}
+
+/** Apply `updater` to one stored schedule. Returns null when it doesn't exist. */
+async function updateLocalSchedule(
+  scheduleId: string,
+  updater: (schedule: Schedule) => Schedule
+): Promise<Schedule | null> {
+  let updated: Schedule | null = null
+  await updateStore<ScheduleStore>(SCHEDULES_STORE, {}, (current) => {
+    if (!current[scheduleId]) return current
+    updated = updater(current[scheduleId])
+    return { ...current, [scheduleId]: updated }
+  })
+  return updated
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+async function executeAttempt(
+  schedule: Schedule,
+  attempt: number,
+  maxAttempts: number,
+  sessionId: string,
+  triggerToken?: string
+): Promise<ExecutionLog> {
+  const base = {
+    id: randomUUID(),
+    schedule_id: schedule.id,
+    agent_id: schedule.agent_id,
+    user_id: schedule.user_id,
+    session_id: sessionId,
+    executed_at: new Date().toISOString(),
+    attempt,
+    max_attempts: maxAttempts,
+    payload_message: schedule.message,
+    ...(triggerToken && { trigger_token: triggerToken }),
+  }
+
+  if (!LYZR_API_KEY) {
+    return { ...base, success: false, response_status: 500, response_output: '', error_message: 'LYZR_API_KEY not configured on server' }
+  }
+
+  try {
+    const reply = await sendAgentMessage({
+      message: schedule.message,
+      agent_id: schedule.agent_id,
+      user_id: schedule.user_id,
+      session_id: sessionId,
+    }, { maxRetries: 0 }) // the schedule's own max_retries/retry_delay apply instead
+    if (!reply.ok) {
+      return {
+        ...base,
+        success: false,
+        response_status: reply.status,
+        response_output: reply.rawText,
+        error_message: `Agent API returned status ${reply.status}`,
+      }
+    }
+
+    // Log the shape the hosted scheduler does, so parseExecutionDetails reads both alike
+    const { response, moduleOutputs } = parseAgentReply(reply.rawText)
+    return {
+      ...base,
+      success: true,
+      response_status: reply.status,
+      response_output: JSON.stringify({ result: { response, module_outputs: moduleOutputs } }),
+      error_message: null,
+    }
+  } catch (error) {
+    return {
+      ...base,
+      success: false,
+      response_status: 500,
+      response_output: '',
+      error_message: error instanceof Error ? error.message : 'Agent call failed',
+    }
+  }
+}
+
+async function recordExecution(log: ExecutionLog) {
+  await updateStore<ExecutionLog[]>(EXECUTIONS_STORE, [], (current) =>
+    [log, ...current].slice(0, MAX_STORED_EXECUTIONS)
+  )
+  await updateLocalSchedule(log.schedule_id, (schedule) => ({
+    ...schedule,
+    last_run_at: log.executed_at,
+    last_run_success: log.success,
+  }))
+}
+
+function runLeaseName(scheduleId: string): string {
+  return `local-run-${scheduleId}`
+}
+
+/** Long enough to cover every attempt and retry delay of one run. */
+function runLeaseTtl(schedule: Schedule): number {
+  return (schedule.max_retries + 1) * (ATTEMPT_ALLOWANCE_MS + schedule.retry_delay * 1000)
+}
+
+/** Run a schedule to completion, retrying failed attempts, then release its lease. */
+async function runSchedule(scheduleId: string, leaseHolder: string, triggerToken?: string) {
+  const sessionId = `${scheduleId}-${randomUUID().substring(0, 12)}`
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      // Re-read each attempt so edits, pauses and deletes during a retry delay take effect
+      const schedules = await readStore<ScheduleStore>(SCHEDULES_STORE, {})
+      const schedule = schedules[scheduleId]
+      if (!schedule || (attempt > 1 && !schedule.is_active)) return
+
+      const maxAttempts = schedule.max_retries + 1
+      const log = await executeAttempt(schedule, attempt, maxAttempts, sessionId, triggerToken)
+      await recordExecution(log)
+      if (log.success) await recordExecutionPrices(scheduleId, [log])
+      if (log.success || attempt >= maxAttempts) return
+
+      await new Promise(resolve => setTimeout(resolve, schedule.retry_delay * 1000))
+    }
+  } finally {
+    await releaseLease(runLeaseName(scheduleId), leaseHolder)
+  }
+}
+
+function startRun(scheduleId: string, leaseHolder: string, triggerToken?: string) {
+  runSchedule(scheduleId, leaseHolder, triggerToken).catch(error => console.error(`Local schedule ${scheduleId} failed:`, error))
+}
+
+function isDue(schedule: Schedule, now: Date): boolean {
+  return schedule.is_active && !!schedule.next_run_time && new Date(schedule.next_run_time) <= now
+}
+
+async function tick() {
+  const now = new Date()
+  const holder = randomUUID()
+
+  const candidates = Object.values(await readStore<ScheduleStore>(SCHEDULES_STORE, {})).filter(s => isDue(s, now))
+  if (candidates.length === 0) return
+
+  // Claim before advancing: whoever holds the lease re-reads next_run_time
+  // below, after any other claimant has already advanced it
+  const claimed = new Map<string, TradingMode>()
+  for (const schedule of candidates) {
+    if (!(await acquireLease(runLeaseName(schedule.id), holder, runLeaseTtl(schedule)))) continue
+    claimed.set(schedule.id, (await getScheduleSettings(schedule.id)).trading_mode ?? 'always')
+  }
+
+  // Advance next_run_time before firing so a slow run is never picked up twice
+  const due: string[] = []
+  await updateStore<ScheduleStore>(SCHEDULES_STORE, {}, (current) => {
+    const next = { ...current }
+    for (const schedule of Object.values(current)) {
+      const mode = claimed.get(schedule.id)
+      if (!mode || !isDue(schedule, now)) continue
+      if (isWithinTradingMode(now, mode)) due.push(schedule.id)
+      const [nextRun] = getNextTradingRuns(schedule.cron_expression, schedule.timezone, mode, 1, now)
+      next[schedule.id] = { ...schedule, next_run_time: nextRun ? nextRun.toISOString() : null }
+    }
+    return next
+  })
+
+  for (const scheduleId of Array.from(claimed.keys())) {
+    if (due.includes(scheduleId)) startRun(scheduleId, holder)
+    else await releaseLease(runLeaseName(scheduleId), holder)
+  }
+}
+
+/** Start the engine's timer (idempotent, including across hot reloads). */
+export function startLocalScheduler() {
+  if (engine.__localSchedulerTicker) return
+  engine.__localSchedulerTicker = setInterval(() => {
+    tick().catch(error => console.error('Local scheduler tick failed:', error))
+  }, TICK_MS)
+  tick().catch(error => console.error('Local scheduler tick failed:', error))
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+// ---------------------------------------------------------------------------
+
+async function listSchedules(params: ScheduleListParams): Promise<SchedulerResult<{ schedules: Schedule[]; total: number }>> {
+  const store = await readStore<ScheduleStore>(SCHEDULES_STORE, {})
+  const schedules = Object.values(store)
+    .filter(s => !params.agentId || s.agent_id === params.agentId)
+    .filter(s => params.is_active === undefined || s.is_active === params.is_active)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+  return { success: true, status: 200, data: { schedules: page(schedules, params.skip, params.limit), total: schedules.length } }
+}
+
+async function getSchedule(scheduleId: string): Promise<SchedulerResult<Schedule>> {
+  const store = await readStore<ScheduleStore>(SCHEDULES_STORE, {})
+  return store[scheduleId] ? { success: true, status: 200, data: store[scheduleId] } : notFound()
+}
+
+async function createSchedule(input: ScheduleInput): Promise<SchedulerResult<Schedule>> {
+  const fieldErrors = validateScheduleFields(input)
+  if (Object.keys(fieldErrors).length > 0) {
+    return { success: false, status: 400, error: 'Invalid schedule fields', details: JSON.stringify(fieldErrors) }
+  }
+
+  const now = new Date().toISOString()
+  const schedule: Schedule = {
+    ...input,
+    id: randomUUID(),
+    user_id: LOCAL_USER_ID,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+    next_run_time: nextRunTime(input),
+    last_run_at: null,
+    last_run_success: null,
+  }
+  await updateStore<ScheduleStore>(SCHEDULES_STORE, {}, (current) => ({ ...current, [schedule.id]: schedule }))
+  return { success: true, status: 201, data: schedule }
+}
+
+async function updateSchedule(scheduleId: string, patch: Partial<EditableScheduleFields>): Promise<SchedulerResult<Schedule>> {
+  const updated = await updateLocalSchedule(scheduleId, (schedule) => {
+    const next = { ...schedule, ...patch, updated_at: new Date().toISOString() }
+    return { ...next, next_run_time: next.is_active ? nextRunTime(next) : null }
+  })
+  return updated ? { success: true, status: 200, data: updated } : notFound()
+}
+
+async function setScheduleActive(scheduleId: string, active: boolean): Promise<SchedulerResult<Schedule>> {
+  const updated = await updateLocalSchedule(scheduleId, (schedule) => ({
+    ...schedule,
+    is_active: active,
+    next_run_time: active ? nextRunTime(schedule) : null,
+    updated_at: new Date().toISOString(),
+  }))
+  return updated ? { success: true, status: 200, data: updated } : notFound()
+}
+
+async function deleteSchedule(scheduleId: string): Promise<SchedulerResult<void>> {
+  let existed = false
+  await updateStore<ScheduleStore>(SCHEDULES_STORE, {}, (current) => {
+    existed = !!current[scheduleId]
+    const { [scheduleId]: _, ...rest } = current
+    return rest
+  })
+  return existed ? { success: true, status: 204 } : notFound()
+}
+
+async function triggerSchedule(scheduleId: string, triggerToken?: string): Promise<SchedulerResult<void>> {
+  const store = await readStore<ScheduleStore>(SCHEDULES_STORE, {})
+  if (!store[scheduleId]) return notFound()
+  const holder = randomUUID()
+  if (!(await acquireLease(runLeaseName(scheduleId), holder, runLeaseTtl(store[scheduleId])))) {
+    return { success: false, status: 409, error: 'A run of this schedule is already in progress' }
+  }
+  startRun(scheduleId, holder, triggerToken)
+  return { success: true, status: 202 }
+}
+
+async function getLogs(
+  scheduleId: string,
+  params: { skip?: number; limit?: number } = {}
+): Promise<SchedulerResult<{ executions: ExecutionLog[]; total: number }>> {
+  const executions = (await readStore<ExecutionLog[]>(EXECUTIONS_STORE, [])).filter(log => log.schedule_id === scheduleId)
+  return { success: true, status: 200, data: { executions: page(executions, params.skip, params.limit), total: executions.length } }
+}
+
+async function getRecentExecutions(params: RecentExecutionParams): Promise<SchedulerResult<{ executions: ExecutionLog[]; total: number }>> {
+  const windowHours = params.hours ?? (params.days !== undefined ? params.days * 24 : undefined)
+  const since = windowHours !== undefined ? Date.now() - windowHours * 60 * 60 * 1000 : null
+  const executions = (await readStore<ExecutionLog[]>(EXECUTIONS_STORE, []))
+    .filter(log => !params.agentId || log.agent_id === params.agentId)
+    .filter(log => params.success === undefined || log.success === params.success)
+    .filter(log => since === null || new Date(log.executed_at).getTime() >= since)
+  return { success: true, status: 200, data: { executions: page(executions, params.skip, params.limit), total: executions.length } }
+}
+
+export const localBackend: SchedulerBackend = {
+  kind: 'local',
+  listSchedules,
+  getSchedule,
+  getSchedulesForAgent: async (agentId) => {
+    const result = await listSchedules({ agentId })
+    return { ...result, data: { agent_id: agentId, schedules: result.data?.schedules ?? [], webhooks: [] } }
+  },
+  createSchedule,
+  updateSchedule,
+  setScheduleActive,
+  deleteSchedule,
+  triggerSchedule,
+  getLogs,
+  getRecentExecutions,
+}
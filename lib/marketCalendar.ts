@@ -0,0 +1,286 @@
+/**
+ * US Equity Market Calendar
+ *
+ * Built-in NYSE/NASDAQ trading calendar: regular and extended sessions, early
+ * closes and exchange holidays, computed from the exchange rules so no yearly
+ * data file is needed. All session times are America/New_York wall-clock.
+ *
+ * Schedules opt into a TradingMode; runs outside the mode's sessions are
+ * skipped by the local engine, held back on the hosted scheduler by pausing
+ * the schedule between sessions (lib/tradingHoursGate.ts), cut from the cron
+ * where the expression allows (limitCronToTradingMode) and excluded from
+ * next-run previews.
+ */
+
+import { parseCron, findCronRuns, getZonedParts, zonedTimeToDate } from './cron'
+
+export const MARKET_TIMEZONE = 'America/New_York'
+
+// Types
+export type TradingMode = 'always' | 'market_hours' | 'extended_hours'
+
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed'
+
+export interface MarketDay {
+  /** YYYY-MM-DD in exchange time. */
+  date: string
+  name: string
+}
+
+export interface MarketStatus {
+  session: MarketSession
+  /** Holiday name when the exchange is closed for a holiday. */
+  holiday?: string
+  earlyClose: boolean
+}
+
+export const TRADING_MODES: { value: TradingMode; label: string; description: string }[] = [
+  { value: 'always', label: 'Always', description: 'Run on every cron tick' },
+  { value: 'market_hours', label: 'Market hours only', description: '9:30–16:00 ET on trading days' },
+  { value: 'extended_hours', label: 'Extended hours', description: '4:00–20:00 ET on trading days' },
+]
+
+export function isTradingMode(value: unknown): value is TradingMode {
+  return TRADING_MODES.some(m => m.value === value)
+}
+
+// Session boundaries in minutes after midnight ET
+const PRE_MARKET_OPEN = 4 * 60
+const REGULAR_OPEN = 9 * 60 + 30
+const REGULAR_CLOSE = 16 * 60
+const EARLY_CLOSE = 13 * 60
+const POST_MARKET_CLOSE = 20 * 60
+const EARLY_POST_MARKET_CLOSE = 17 * 60
+
+// ---------------------------------------------------------------------------
+// Holidays and early closes
+// ---------------------------------------------------------------------------
+
+function dateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+function shiftDays(year: number, month: number, day: number, days: number): [number, number, number] {
+  const d = new Date(Date.UTC(year, month - 1, day + days))
+  return [d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()]
+}
+
+/** The `n`th `weekday` (0 = Sunday) of a month. */
+function nthWeekday(year: number, month: number, weekday: number, n: number): [number, number, number] {
+  const first = weekdayOf(year, month, 1)
+  return [year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7]
+}
+
+function lastWeekday(year: number, month: number, weekday: number): [number, number, number] {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  const last = weekdayOf(year, month, lastDay)
+  return [year, month, lastDay - ((last - weekday + 7) % 7)]
+}
+
+/** Western Easter Sunday (anonymous Gregorian algorithm). */
+function easterSunday(year: number): [number, number, number] {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return [year, month, day]
+}
+
+/** Fixed-date holidays move to Friday when on Saturday, Monday when on Sunday. */
+function observed(year: number, month: number, day: number): [number, number, number] {
+  const weekday = weekdayOf(year, month, day)
+  if (weekday === 6) return shiftDays(year, month, day, -1)
+  if (weekday === 0) return shiftDays(year, month, day, 1)
+  return [year, month, day]
+}
+
+const holidayCache = new Map<number, MarketDay[]>()
+const earlyCloseCache = new Map<number, MarketDay[]>()
+
+/** Full-day exchange holidays in `year`. */
+export function getMarketHolidays(year: number): MarketDay[] {
+  const cached = holidayCache.get(year)
+  if (cached) return cached
+
+  const days: [string, [number, number, number]][] = []
+  // New Year's Day on a Saturday is not observed (the Friday is the prior year-end)
+  if (weekdayOf(year, 1, 1) !== 6) days.push(["New Year's Day", observed(year, 1, 1)])
+  days.push(['Martin Luther King Jr. Day', nthWeekday(year, 1, 1, 3)])
+  days.push(["Washington's Birthday", nthWeekday(year, 2, 1, 3)])
+  const [ey, em, ed] = easterSunday(year)
+  days.push(['Good Friday', shiftDays(ey, em, ed, -2)])
+  days.push(['Memorial Day', lastWeekday(year, 5, 1)])
+  if (year >= 2022) days.push(['Juneteenth', observed(year, 6, 19)])
+  days.push(['Independence Day', observed(year, 7, 4)])
+  days.push(['Labor Day', nthWeekday(year, 9, 1, 1)])
+  days.push(['Thanksgiving Day', nthWeekday(year, 11, 4, 4)])
+  days.push(['Christmas Day', observed(year, 12, 25)])
+
+  const holidays = days.map(([name, [y, m, d]]) => ({ date: dateKey(y, m, d), name }))
+  holidayCache.set(year, holidays)
+  return holidays
+}
+
+/** Days in `year` when the exchange closes at 13:00 ET. */
+export function getEarlyCloses(year: number): MarketDay[] {
+  const cached = earlyCloseCache.get(year)
+  if (cached) return cached
+
+  const holidays = new Set(getMarketHolidays(year).map(h => h.date))
+  const candidates: [string, [number, number, number]][] = [
+    ['Independence Day eve', [year, 7, 3]],
+    ['Day after Thanksgiving', shiftDays(...nthWeekday(year, 11, 4, 4), 1)],
+    ['Christmas Eve', [year, 12, 24]],
+  ]
+
+  const earlyCloses = candidates
+    .filter(([, [y, m, d]]) => {
+      const weekday = weekdayOf(y, m, d)
+      // July 3rd and December 24th only close early when they fall Monday-Thursday
+      const allowed = m === 11 ? weekday === 5 : weekday >= 1 && weekday <= 4
+      return allowed && !holidays.has(dateKey(y, m, d))
+    })
+    .map(([name, [y, m, d]]) => ({ date: dateKey(y, m, d), name }))
+  earlyCloseCache.set(year, earlyCloses)
+  return earlyCloses
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+/** Market session at `date`. */
+export function getMarketStatus(date: Date = new Date()): MarketStatus {
+  const parts = getZonedParts(date, MARKET_TIMEZONE)
+  const key = dateKey(parts.year, parts.month, parts.day)
+
+  const holiday = getMarketHolidays(parts.year).find(h => h.date === key)
+  if (holiday) return { session: 'closed', holiday: holiday.name, earlyClose: false }
+  if (parts.weekday === 0 || parts.weekday === 6) return { session: 'closed', earlyClose: false }
+
+  const earlyClose = getEarlyCloses(parts.year).some(h => h.date === key)
+  const minutes = parts.hour * 60 + parts.minute
+  const close = earlyClose ? EARLY_CLOSE : REGULAR_CLOSE
+  const postClose = earlyClose ? EARLY_POST_MARKET_CLOSE : POST_MARKET_CLOSE
+
+  let session: MarketSession = 'closed'
+  if (minutes >= PRE_MARKET_OPEN && minutes < REGULAR_OPEN) session = 'pre'
+  else if (minutes >= REGULAR_OPEN && minutes < close) session = 'regular'
+  else if (minutes >= close && minutes < postClose) session = 'post'
+  return { session, earlyClose }
+}
+
+/** Whether a run at `date` is allowed under `mode`. */
+export function isWithinTradingMode(date: Date, mode: TradingMode): boolean {
+  if (mode === 'always') return true
+  const { session } = getMarketStatus(date)
+  return mode === 'market_hours' ? session === 'regular' : session !== 'closed'
+}
+
+/** The next `count` cron fire times that fall inside the trading mode's sessions. */
+export function getNextTradingRuns(
+  expression: string,
+  timeZone: string,
+  mode: TradingMode,
+  count: number = 5,
+  from: Date = new Date()
+): Date[] {
+  const { cron } = parseCron(expression)
+  if (!cron) return []
+  return findCronRuns(cron, timeZone, count, from, run => isWithinTradingMode(run, mode))
+}
+
+// ---------------------------------------------------------------------------
+// Cron narrowing
+// ---------------------------------------------------------------------------
+
+// Each mode's session window in minutes after midnight ET (before early closes)
+const MODE_WINDOWS: Record<Exclude<TradingMode, 'always'>, [number, number]> = {
+  market_hours: [REGULAR_OPEN, REGULAR_CLOSE],
+  extended_hours: [PRE_MARKET_OPEN, POST_MARKET_CLOSE],
+}
+
+// Every UTC offset is a multiple of 15 minutes, so sampling the sessions at
+// that step touches every local hour they overlap
+const WINDOW_SAMPLE_MINUTES = 15
+
+const windowCache = new Map<string, { hours: number[]; weekdays: number[] }>()
+
+/**
+ * The hours and weekdays, in `timeZone`, that overlap the mode's sessions on
+ * some trading weekday of `year`. Sampling the whole year covers both the
+ * exchange's and the zone's daylight-saving offsets.
+ */
+function getTradingWindow(timeZone: string, mode: Exclude<TradingMode, 'always'>, year: number) {
+  const cacheKey = `${timeZone}|${mode}|${year}`
+  const cached = windowCache.get(cacheKey)
+  if (cached) return cached
+
+  const [open, close] = MODE_WINDOWS[mode]
+  const hours = new Set<number>()
+  const weekdays = new Set<number>()
+  for (let day = new Date(Date.UTC(year, 0, 1)); day.getUTCFullYear() === year; day.setUTCDate(day.getUTCDate() + 1)) {
+    const weekday = day.getUTCDay()
+    if (weekday === 0 || weekday === 6) continue
+    for (let minute = open; minute < close; minute += WINDOW_SAMPLE_MINUTES) {
+      const run = zonedTimeToDate(year, day.getUTCMonth() + 1, day.getUTCDate(), Math.floor(minute / 60), minute % 60, MARKET_TIMEZONE)
+      const local = getZonedParts(run, timeZone)
+      hours.add(local.hour)
+      weekdays.add(local.weekday)
+    }
+  }
+
+  const window = {
+    hours: Array.from(hours).sort((a, b) => a - b),
+    weekdays: Array.from(weekdays).sort((a, b) => a - b),
+  }
+  windowCache.set(cacheKey, window)
+  return window
+}
+
+/** Sorted values as a cron list of ranges, e.g. [0, 1, 2, 22, 23] → "0-2,22-23". */
+function toCronList(values: number[]): string {
+  const ranges: string[] = []
+  for (let i = 0; i < values.length; i++) {
+    const from = values[i]
+    while (i + 1 < values.length && values[i + 1] === values[i] + 1) i++
+    ranges.push(from === values[i] ? String(from) : `${from}-${values[i]}`)
+  }
+  return ranges.join(',')
+}
+
+/**
+ * Narrow a cron expression to the hours and weekdays the trading mode's
+ * sessions fall on in the schedule's timezone, so it doesn't fire overnight
+ * or on weekends — e.g. an every-5-minutes cron in market hours gets hours
+ * `9-15` and weekdays `1-5` in New York, and hours `13-20` in London (the two
+ * zones change clocks on different dates). Only fields left as `*` are
+ * narrowed. The cron can't express the 9:30 open,
+ * early closes or holidays; the local engine and the trading-hours gate
+ * enforce those.
+ */
+export function limitCronToTradingMode(expression: string, timeZone: string, mode: TradingMode, from: Date = new Date()): string {
+  if (mode === 'always') return expression
+  const { cron } = parseCron(expression)
+  if (!cron) return expression
+
+  const window = getTradingWindow(timeZone, mode, getZonedParts(from, timeZone).year)
+  const fields = expression.trim().split(/\s+/)
+  if (cron.hour.isAll) fields[1] = toCronList(window.hours)
+  if (cron.dayOfMonth.isAll && cron.dayOfWeek.isAll) fields[4] = toCronList(window.weekdays)
+  return fields.join(' ')
+}
@@ -0,0 +1,125 @@
+/**
+ * Rate Limiter (server-side)
+ *
+ * In-memory limits for /api/scheduler (the client limit also covers the
+ * /api/settings and /api/alert-rules changes):
+ *
+ *   - trigger cooldown — a schedule can be triggered manually at most once per
+ *     TRIGGER_COOLDOWN_MS (default 60s), no matter who clicks
+ *   - client limit     — each client IP gets CLIENT_RATE_LIMIT mutations per
+ *     CLIENT_RATE_WINDOW_MS (default 30/min). Requests whose IP can't be told
+ *     share one bucket; the client-chosen actor name is never a key, since
+ *     changing it would reset the limit
+ *
+ * Limits live in process memory, so they reset on restart and are per server
+ * instance.
+ *
+ * NEVER import this from client components.
+ */
+
+import { getRequestActor } from '@/lib/auditTrail'
+import type { RateLimitInfo } from '@/lib/scheduler'
+
+const TRIGGER_COOLDOWN_MS = Number(process.env.TRIGGER_COOLDOWN_MS) || 60 * 1000
+const CLIENT_RATE_LIMIT = Number(process.env.CLIENT_RATE_LIMIT) || 30
+const CLIENT_RATE_WINDOW_MS = Number(process.env.CLIENT_RATE_WINDOW_MS) || 60 * 1000
+const MAX_TRACKED_KEYS = 5000
+
+export type LimitCheck = { allowed: true; info: RateLimitInfo } | { allowed: false; info: RateLimitInfo }
+
+// scheduleId → cooldown end (epoch ms)
+const triggerCooldowns = new Map<string, number>()
+// client key → window start and request count
+const clientWindows = new Map<string, { start: number; count: number }>()
+
+function toInfo(scope: RateLimitInfo['scope'], limit: number, remaining: number, until: number): RateLimitInfo {
+  const retryAfterMs = Math.max(0, until - Date.now())
+  return {
+    scope,
+    limit,
+    remaining,
+    retry_after_ms: retryAfterMs,
+    retry_at: new Date(until).toISOString(),
+  }
+}
+
+// Maps only ever grow with new keys; drop expired ones once they get large
+function pruneExpired() {
+  const now = Date.now()
+  if (triggerCooldowns.size > MAX_TRACKED_KEYS) {
+    for (const [key, until] of Array.from(triggerCooldowns.entries())) {
+      if (until <= now) triggerCooldowns.delete(key)
+    }
+  }
+  if (clientWindows.size > MAX_TRACKED_KEYS) {
+    for (const [key, entry] of Array.from(clientWindows.entries())) {
+      if (entry.start + CLIENT_RATE_WINDOW_MS <= now) clientWindows.delete(key)
+    }
+  }
+}
+
+/**
+ * Start a schedule's trigger cooldown, unless one is already running. Call
+ * releaseTriggerCooldown if the trigger then fails so the user can retry.
+ */
+export function reserveTriggerCooldown(scheduleId: string): LimitCheck {
+  pruneExpired()
+  const now = Date.now()
+  const until = triggerCooldowns.get(scheduleId)
+  if (until && until > now) {
+    return { allowed: false, info: toInfo('trigger_cooldown', 1, 0, until) }
+  }
+  const next = now + TRIGGER_COOLDOWN_MS
+  triggerCooldowns.set(scheduleId, next)
+  return { allowed: true, info: toInfo('trigger_cooldown', 1, 0, next) }
+}
+
+export function releaseTriggerCooldown(scheduleId: string) {
+  triggerCooldowns.delete(scheduleId)
+}
+
+/** Count one mutation against the client's window. */
+export function consumeClientLimit(clientKey: string): LimitCheck {
+  pruneExpired()
+  const now = Date.now()
+  let current = clientWindows.get(clientKey)
+  if (!current || current.start + CLIENT_RATE_WINDOW_MS <= now) {
+    current = { start: now, count: 0 }
+    clientWindows.set(clientKey, current)
+  }
+
+  const resetAt = current.start + CLIENT_RATE_WINDOW_MS
+  if (current.count >= CLIENT_RATE_LIMIT) {
+    return { allowed: false, info: toInfo('client', CLIENT_RATE_LIMIT, 0, resetAt) }
+  }
+  current.count++
+  return { allowed: true, info: toInfo('client', CLIENT_RATE_LIMIT, CLIENT_RATE_LIMIT - current.count, resetAt) }
+}
+
+// Bucket shared by every request without a known address
+const UNKNOWN_CLIENT_KEY = 'unknown-client'
+
+/**
+ * consumeClientLimit for a request's client: the forwarded IP, else the
+ * remote address the platform reports (NextRequest.ip), else the shared
+ * unknown-client bucket.
+ */
+export function consumeRequestLimit(request: Request & { ip?: string }): LimitCheck {
+  const { ip } = getRequestActor(request)
+  return consumeClientLimit(ip ?? request.ip ?? UNKNOWN_CLIENT_KEY)
+}
+
+/** 429 response for a spent limit: `${message}. Try again in Ns.` plus a Retry-After header. */
+export function rateLimited(info: RateLimitInfo, message: string): Response {
+  const seconds = Math.ceil(info.retry_after_ms / 1000)
+  return Response.json(
+    { success: false, error: `${message}. Try again in ${seconds}s.`, rate_limit: info },
+    { status: 429, headers: { 'Retry-After': String(seconds) } }
+  )
+}
+
+/** Count a mutation against the request's client; the 429 response when its window is used up, else null. */
+export function checkClientLimit(request: Request, message = 'Too many schedule changes'): Response | null {
+  const result = consumeRequestLimit(request)
+  return result.allowed ? null : rateLimited(result.info, message)
+}
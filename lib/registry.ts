@@ -0,0 +1,233 @@
+/**
+ * Agent Registry
+ *
+ * The agents and schedules declared in workflow_state.json, each agent joined
+ * with its response schema from response_schemas/, so code refers to agents by
+ * name ("Stock Alert Agent" or its key "stock-alert-agent") instead of hex IDs.
+ * Safe to import from both client components and API routes.
+ *
+ * IDs can be overridden per deployment without touching the JSON:
+ *
+ *   NEXT_PUBLIC_AGENT_IDS=stock-alert-agent=<agent id>[,<key>=<id>...]
+ *   NEXT_PUBLIC_SCHEDULE_IDS=stock-alert-agent=<schedule id>[,...]
+ *
+ * Schedule overrides are keyed by agent and replace that agent's first
+ * declared schedule. The NEXT_PUBLIC_ prefix makes the overrides visible to
+ * the browser bundle too; they are IDs, not secrets.
+ *
+ * Response schemas are bundled, not read from disk at runtime: webpack's
+ * require.context picks up every *.json file in response_schemas/ at build
+ * time, so dropping a new schema file there is enough.
+ */
+
+import workflowState from '@/workflow_state.json'
+import type { AgentResponseSchema } from '@/lib/responseSchemas'
+
+// Types
+export interface RegisteredAgent {
+  /** Slug of the name, e.g. `stock-alert-agent`. */
+  key: string
+  name: string
+  agent_id: string
+  description: string
+  type: string
+  provider: string
+  model: string
+  tools: string[]
+  has_scheduler: boolean
+  has_knowledge_base: boolean
+  response_schema: AgentResponseSchema | null
+  /** True when agent_id came from NEXT_PUBLIC_AGENT_IDS. */
+  overridden: boolean
+}
+
+export interface RegisteredSchedule {
+  schedule_id: string
+  agent_key: string
+  agent_id: string
+  cron_expression: string
+  timezone: string
+  message: string
+  is_active: boolean
+  /** True when schedule_id came from NEXT_PUBLIC_SCHEDULE_IDS. */
+  overridden: boolean
+}
+
+interface WorkflowAgent {
+  agent_id: string
+  name: string
+  description?: string
+  type?: string
+  provider?: string
+  model?: string
+  has_knowledge_base?: boolean
+  has_scheduler?: boolean
+  tools?: string[]
+}
+
+interface WorkflowSchedule {
+  schedule_id: string
+  agent_id: string
+  agent_name?: string
+  cron_expression: string
+  timezone: string
+  message: string
+  is_active?: boolean
+}
+
+interface JsonContext {
+  keys(): string[]
+  (id: string): unknown
+}
+
+type RequireWithContext = { context(directory: string, recursive: boolean, pattern: RegExp): JsonContext }
+
+/** Every schema file in response_schemas/; files without an agent to match on are skipped. */
+function loadResponseSchemas(): AgentResponseSchema[] {
+  const context = (require as unknown as RequireWithContext).context('../response_schemas', false, /\.json$/)
+  // A file can be listed under more than one key; each module loads once, so dedupe by identity
+  const modules = Array.from(new Set(context.keys().map(file => context(file) as Partial<AgentResponseSchema>)))
+  return modules.filter((schema): schema is AgentResponseSchema =>
+    !!schema && typeof schema.response_schema === 'object' && !!(schema.agent_id || schema.agent_name)
+  )
+}
+
+const RESPONSE_SCHEMA_FILES = loadResponseSchemas()
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+export function toAgentKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/** Parse `key=id,key=id` into a map keyed by agent key. Malformed pairs are ignored. */
+function parseOverrides(value: string | undefined): Record<string, string> {
+  const overrides: Record<string, string> = {}
+  for (const pair of (value || '').split(',')) {
+    const [name, id] = pair.split('=').map(part => part.trim())
+    if (name && id) overrides[toAgentKey(name)] = id
+  }
+  return overrides
+}
+
+function loadRegistry() {
+  // Referenced literally so Next inlines them into the client bundle
+  const agentOverrides = parseOverrides(process.env.NEXT_PUBLIC_AGENT_IDS)
+  const scheduleOverrides = parseOverrides(process.env.NEXT_PUBLIC_SCHEDULE_IDS)
+
+  const declaredAgents = (workflowState.agents ?? []) as WorkflowAgent[]
+  const declaredSchedules = (workflowState.schedules ?? []) as WorkflowSchedule[]
+
+  // Schema files carry the declared agent_id, which an override may replace,
+  // so match them by either ID or name
+  const schemaFor = (agent: WorkflowAgent) =>
+    RESPONSE_SCHEMA_FILES.find(schema => schema.agent_id === agent.agent_id || schema.agent_name === agent.name) ?? null
+
+  const agents: RegisteredAgent[] = declaredAgents.map(agent => {
+    const key = toAgentKey(agent.name)
+    const override = agentOverrides[key]
+    return {
+      key,
+      name: agent.name,
+      agent_id: override || agent.agent_id,
+      description: agent.description ?? '',
+      type: agent.type ?? 'text',
+      provider: agent.provider ?? '',
+      model: agent.model ?? '',
+      tools: agent.tools ?? [],
+      has_scheduler: !!agent.has_scheduler,
+      has_knowledge_base: !!agent.has_knowledge_base,
+      response_schema: schemaFor(agent),
+      overridden: !!override,
+    }
+  })
+
+  const overriddenAgents = new Set<string>()
+  const schedules: RegisteredSchedule[] = declaredSchedules.flatMap(schedule => {
+    const declared = declaredAgents.find(agent => agent.agent_id === schedule.agent_id)
+    const agent = declared && agents.find(a => a.key === toAgentKey(declared.name))
+    if (!agent) return []
+
+    // Only the agent's first schedule takes the override
+    const override = overriddenAgents.has(agent.key) ? undefined : scheduleOverrides[agent.key]
+    if (override) overriddenAgents.add(agent.key)
+    return [{
+      schedule_id: override || schedule.schedule_id,
+      agent_key: agent.key,
+      agent_id: agent.agent_id,
+      cron_expression: schedule.cron_expression,
+      timezone: schedule.timezone,
+      message: schedule.message,
+      is_active: schedule.is_active !== false,
+      overridden: !!override,
+    }]
+  })
+
+  return { agents, schedules }
+}
+
+const REGISTRY = loadRegistry()
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+export function listAgents(): RegisteredAgent[] {
+  return REGISTRY.agents
+}
+
+export function listRegisteredSchedules(): RegisteredSchedule[] {
+  return REGISTRY.schedules
+}
+
+/** Look an agent up by name or key (case-insensitive). */
+export function getAgent(name: string): RegisteredAgent | null {
+  const key = toAgentKey(name)
+  return REGISTRY.agents.find(agent => agent.key === key) ?? null
+}
+
+export function getAgentById(agentId: string): RegisteredAgent | null {
+  return REGISTRY.agents.find(agent => agent.agent_id === agentId) ?? null
+}
+
+/**
+ * The agent ID for a name the code depends on. Throws for unknown names — a
+ * missing agent is a broken deployment, not something to render around.
+ */
+export function requireAgentId(name: string): string {
+  const agent = getAgent(name)
+  if (!agent) {
+    const known = REGISTRY.agents.map(a => a.key).join(', ') || 'none'
+    throw new Error(`Agent "${name}" is not in workflow_state.json (known: ${known})`)
+  }
+  return agent.agent_id
+}
+
+export function getAgentSchedules(name: string): RegisteredSchedule[] {
+  const agent = getAgent(name)
+  return agent ? REGISTRY.schedules.filter(schedule => schedule.agent_key === agent.key) : []
+}
+
+/** Response schema for an agent ID, whether declared or overridden. */
+export function getSchemaForAgentId(agentId: string): AgentResponseSchema | null {
+  return getAgentById(agentId)?.response_schema ?? null
+}
+
+/**
+ * Resolve a request's agent reference: an explicit `agent_id` wins, otherwise
+ * `agent` is looked up by name. Returns an error for unknown names.
+ */
+export function resolveAgentRef(ref: { agent_id?: unknown; agent?: unknown }): { agentId?: string; error?: string } {
+  if (typeof ref.agent_id === 'string' && ref.agent_id) return { agentId: ref.agent_id }
+  if (typeof ref.agent === 'string' && ref.agent) {
+    const agent = getAgent(ref.agent)
+    return agent ? { agentId: agent.agent_id } : { error: `Unknown agent: ${ref.agent}` }
+  }
+  return {}
+}
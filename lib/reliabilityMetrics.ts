@@ -0,0 +1,138 @@
+/**
+ * Reliability Metrics
+ *
+ * Aggregates execution logs into reliability metrics (success, email delivery,
+ * retry and parse-failure rates, and the spacing between consecutive runs),
+ * both for a whole window and per time bucket for trend sparklines.
+ * Safe to import from both client components and API routes.
+ */
+
+import type { ExecutionLog } from '@/lib/scheduler'
+import { parseExecutionData } from '@/lib/stockAlert'
+
+// Types
+export type MetricKey = 'successRate' | 'emailRate' | 'retryRate' | 'parseFailureRate' | 'spacingP50' | 'spacingP95'
+
+export type MetricValues = Record<MetricKey, number | null>
+
+export interface MetricBucket extends MetricValues {
+  start: string
+  runs: number
+}
+
+export interface ReliabilityReport {
+  runs: number
+  summary: MetricValues
+  buckets: MetricBucket[]
+}
+
+export interface ReliabilityWindow {
+  id: string
+  label: string
+  hours?: number
+  days?: number
+  buckets: number
+}
+
+export const RELIABILITY_WINDOWS: ReliabilityWindow[] = [
+  { id: '24h', label: '24 hours', hours: 24, buckets: 24 },
+  { id: '7d', label: '7 days', days: 7, buckets: 14 },
+  { id: '30d', label: '30 days', days: 30, buckets: 30 },
+]
+
+export const METRICS: { key: MetricKey; label: string; unit: '%' | 'min'; higherIsBetter: boolean }[] = [
+  { key: 'successRate', label: 'Success rate', unit: '%', higherIsBetter: true },
+  { key: 'emailRate', label: 'Email delivery', unit: '%', higherIsBetter: true },
+  { key: 'retryRate', label: 'Retry rate', unit: '%', higherIsBetter: false },
+  { key: 'parseFailureRate', label: 'Parse failures', unit: '%', higherIsBetter: false },
+  { key: 'spacingP50', label: 'Run spacing p50', unit: 'min', higherIsBetter: false },
+  { key: 'spacingP95', label: 'Run spacing p95', unit: 'min', higherIsBetter: false },
+]
+
+export function windowDurationMs(window: ReliabilityWindow): number {
+  return ((window.hours ?? 0) + (window.days ?? 0) * 24) * 3600000
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+/** Nearest-rank percentile of an unsorted list; null when empty. */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1]
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole === 0 ? null : (part / whole) * 100
+}
+
+interface AnnotatedLog {
+  log: ExecutionLog
+  time: number
+  parsed: boolean
+  emailSent: boolean
+  /** Minutes since the previous run of the same schedule, if any. */
+  gap: number | null
+}
+
+function annotate(logs: ExecutionLog[]): AnnotatedLog[] {
+  const sorted = [...logs].sort((a, b) => new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime())
+  const lastRunBySchedule = new Map<string, number>()
+
+  return sorted.map((log) => {
+    const time = new Date(log.executed_at).getTime()
+    const data = log.success ? parseExecutionData(log) : null
+    const previous = lastRunBySchedule.get(log.schedule_id)
+    lastRunBySchedule.set(log.schedule_id, time)
+    return {
+      log,
+      time,
+      parsed: !!data,
+      emailSent: !!data?.email_sent,
+      gap: previous === undefined ? null : (time - previous) / 60000,
+    }
+  })
+}
+
+function computeValues(entries: AnnotatedLog[]): MetricValues {
+  const successful = entries.filter(e => e.log.success)
+  const parsed = successful.filter(e => e.parsed)
+  const gaps = entries.map(e => e.gap).filter((g): g is number => g !== null)
+
+  return {
+    successRate: ratio(successful.length, entries.length),
+    emailRate: ratio(parsed.filter(e => e.emailSent).length, parsed.length),
+    retryRate: ratio(entries.filter(e => e.log.attempt > 1).length, entries.length),
+    parseFailureRate: ratio(successful.length - parsed.length, successful.length),
+    spacingP50: percentile(gaps, 50),
+    spacingP95: percentile(gaps, 95),
+  }
+}
+
+/**
+ * Compute reliability metrics for the logs between `from` and `to`, plus the
+ * same metrics for `bucketCount` equal time buckets. Run spacing is measured
+ * between consecutive runs of the same schedule.
+ */
+export function computeReliability(
+  logs: ExecutionLog[],
+  options: { from: Date; to: Date; bucketCount: number }
+): ReliabilityReport {
+  const start = options.from.getTime()
+  const end = options.to.getTime()
+  const entries = annotate(logs).filter(e => e.time >= start && e.time <= end)
+  const bucketSize = Math.max(1, (end - start) / options.bucketCount)
+
+  const buckets: MetricBucket[] = Array.from({ length: options.bucketCount }, (_, i) => {
+    const bucketStart = start + i * bucketSize
+    const inBucket = entries.filter(e =>
+      e.time >= bucketStart && (i === options.bucketCount - 1 ? e.time <= end : e.time < bucketStart + bucketSize)
+    )
+    return { start: new Date(bucketStart).toISOString(), runs: inBucket.length, ...computeValues(inBucket) }
+  })
+
+  return { runs: entries.length, summary: computeValues(entries), buckets }
+}
@@ -0,0 +1,112 @@
+/**
+ * Response Schemas
+ *
+ * The agent output shapes declared in response_schemas/ (loaded through the
+ * agent registry, lib/registry.ts) and a validator that reports how a result
+ * deviates from its agent's schema. Used by /api/agent for live calls and by
+ * the execution-log parser in lib/stockAlert.ts for history. Safe to import
+ * from both client components and API routes.
+ *
+ * A schema maps each key to a type name ("string", "number", "boolean",
+ * "object", "array"), a nested schema object, or a one-element array holding
+ * the item schema. Keys the schema doesn't mention are allowed.
+ */
+
+import { getSchemaForAgentId } from '@/lib/registry'
+
+// Types
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array'
+
+export type SchemaNode = SchemaFieldType | { [key: string]: SchemaNode } | SchemaNode[]
+
+export interface AgentResponseSchema {
+  agent_name: string
+  agent_id: string
+  description?: string
+  agent_type?: string
+  /** Where the schema'd object sits in the normalized response, e.g. "result". */
+  accessor?: string
+  response_schema: Record<string, SchemaNode>
+  example_response?: Record<string, unknown>
+}
+
+export interface ResponseSchemaViolation {
+  /** Dotted path to the field, e.g. `current_price` or `quotes[2].price`. */
+  path: string
+  kind: 'missing' | 'type'
+  expected: string
+  /** Type actually found; 'undefined' for missing keys. */
+  actual: string
+}
+
+/** The registered schema for an agent, or null when it has none. */
+export function getResponseSchema(agentId: string | undefined | null): AgentResponseSchema | null {
+  return agentId ? getSchemaForAgentId(agentId) : null
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function expectedName(node: SchemaNode): string {
+  if (typeof node === 'string') return node
+  return Array.isArray(node) ? 'array' : 'object'
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`
+  return parent ? `${parent}.${key}` : key
+}
+
+function checkNode(node: SchemaNode, value: unknown, path: string, out: ResponseSchemaViolation[]) {
+  const actual = typeOf(value)
+  const expected = expectedName(node)
+
+  if (value === undefined) {
+    out.push({ path, kind: 'missing', expected, actual })
+    return
+  }
+  if (actual !== expected) {
+    out.push({ path, kind: 'type', expected, actual })
+    return
+  }
+
+  if (Array.isArray(node)) {
+    if (node.length > 0) {
+      (value as unknown[]).forEach((item, index) => checkNode(node[0], item, joinPath(path, index), out))
+    }
+  } else if (typeof node === 'object') {
+    checkFields(node, value as Record<string, unknown>, path, out)
+  }
+}
+
+function checkFields(schema: Record<string, SchemaNode>, value: Record<string, unknown>, path: string, out: ResponseSchemaViolation[]) {
+  for (const key of Object.keys(schema)) {
+    checkNode(schema[key], value[key], joinPath(path, key), out)
+  }
+}
+
+/**
+ * Check `result` against the agent's schema. Returns the violations (empty
+ * when it conforms), or null when the agent has no registered schema.
+ */
+export function validateAgentOutput(agentId: string | undefined | null, result: unknown): ResponseSchemaViolation[] | null {
+  const schema = getResponseSchema(agentId)
+  if (!schema) return null
+
+  const violations: ResponseSchemaViolation[] = []
+  if (typeOf(result) !== 'object') {
+    violations.push({ path: '(root)', kind: result === undefined ? 'missing' : 'type', expected: 'object', actual: typeOf(result) })
+    return violations
+  }
+  checkFields(schema.response_schema, result as Record<string, unknown>, '', violations)
+  return violations
+}
+
+export function describeViolation(violation: ResponseSchemaViolation): string {
+  return violation.kind === 'missing'
+    ? `${violation.path}: missing (expected ${violation.expected})`
+    : `${violation.path}: expected ${violation.expected}, got ${violation.actual}`
+}
@@ -0,0 +1,87 @@
+'use client'
+
+/**
+ * Schedule Events Client Utility
+ *
+ * Subscribes to /api/scheduler/events for live schedule state and new
+ * executions. The connection is closed while the tab is hidden and reopened
+ * when it becomes visible again, at which point `onResume` lets the caller
+ * catch up on anything it missed.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import type { Schedule, ExecutionLog } from '@/lib/scheduler'
+
+// Types
+export type ScheduleEventsStatus = 'idle' | 'connecting' | 'live' | 'paused'
+
+export interface ScheduleEventHandlers {
+  onSchedule?: (schedule: Schedule) => void
+  onExecution?: (log: ExecutionLog) => void
+  onUpstreamError?: (error: string) => void
+  /** Called when the stream reopens after the tab was hidden. */
+  onResume?: () => void
+}
+
+/** React hook that keeps a live event stream open for `scheduleId`. */
+export function useScheduleEvents(scheduleId: string | null, handlers: ScheduleEventHandlers): ScheduleEventsStatus {
+  const [status, setStatus] = useState<ScheduleEventsStatus>('idle')
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!scheduleId || typeof EventSource === 'undefined') {
+      setStatus('idle')
+      return
+    }
+
+    let source: EventSource | null = null
+
+    const open = () => {
+      if (source) return
+      setStatus('connecting')
+      source = new EventSource(`/api/scheduler/events?scheduleId=${encodeURIComponent(scheduleId)}`)
+      source.onopen = () => setStatus('live')
+      // EventSource reconnects on its own; reflect that until it succeeds
+      source.onerror = () => setStatus('connecting')
+      source.addEventListener('schedule', (event) => {
+        handlersRef.current.onSchedule?.(JSON.parse((event as MessageEvent).data).schedule)
+      })
+      source.addEventListener('execution', (event) => {
+        handlersRef.current.onExecution?.(JSON.parse((event as MessageEvent).data).log)
+      })
+      source.addEventListener('upstream_error', (event) => {
+        handlersRef.current.onUpstreamError?.(JSON.parse((event as MessageEvent).data).error)
+      })
+    }
+
+    const close = () => {
+      source?.close()
+      source = null
+    }
+
+    const handleVisibility = () => {
+      if (document.hidden) {
+        close()
+        setStatus('paused')
+      } else if (!source) {
+        open()
+        handlersRef.current.onResume?.()
+      }
+    }
+
+    if (document.hidden) {
+      setStatus('paused')
+    } else {
+      open()
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility)
+      close()
+    }
+  }, [scheduleId])
+
+  return status
+}
@@ -0,0 +1,29 @@
+/**
+ * Schedule Message Helpers
+ *
+ * The agent message of a schedule is composed as:
+ *
+ *   <base message>
+ *
+ *   ---
+ *   Dashboard settings (managed automatically, do not edit):
+ *   <one block per setting>
+ *
+ * so the user-authored base message can always be recovered by cutting at the
+ * delimiter. Safe to import from both client components and API routes.
+ */
+
+const SETTINGS_DELIMITER = '\n\n---\nDashboard settings (managed automatically, do not edit):\n'
+
+/** Remove the injected settings section, leaving the user-authored message. */
+export function stripInjectedSettings(message: string): string {
+  const index = message.indexOf(SETTINGS_DELIMITER)
+  return index === -1 ? message : message.slice(0, index)
+}
+
+/** Append the non-empty setting sections to a base message. */
+export function joinScheduleMessage(baseMessage: string, sections: string[]): string {
+  const nonEmpty = sections.filter(Boolean)
+  if (nonEmpty.length === 0) return baseMessage
+  return `${baseMessage}${SETTINGS_DELIMITER}${nonEmpty.join('\n\n')}`
+}
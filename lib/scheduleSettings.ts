@@ -0,0 +1,204 @@
+/**
+ * Schedule Settings (server-side)
+ *
+ * Per-schedule dashboard settings (recipient email, alert rules, trading hours) stored in the
+ * server JSON store, and the logic that injects them into the schedule's agent message and
+ * narrows its cron to the trading hours.
+ *
+ * See lib/scheduleMessage.ts for how the message is composed.
+ *
+ * NEVER import this from client components.
+ */
+
+import { readStore, updateStore } from '@/lib/serverStore'
+import { getSchedulerBackend, type SchedulerResult } from '@/lib/schedulerBackend'
+import { buildRuleInstructions, type AlertRule, type RulePrices } from '@/lib/alertRules'
+import { stripInjectedSettings, joinScheduleMessage } from '@/lib/scheduleMessage'
+import { limitCronToTradingMode, type TradingMode } from '@/lib/marketCalendar'
+import { getRequestActor, recordAudit } from '@/lib/auditTrail'
+import { reconcileTradingGate } from '@/lib/tradingHoursGate'
+import { validateResource, describeSchemaError, SCHEDULER_SCHEMA_MODE, type SchemaError } from '@/lib/schedulerSchemas'
+import type { Schedule } from '@/lib/scheduler'
+import type { AuditAction } from '@/lib/activity'
+
+const STORE_NAME = 'schedule-settings'
+
+export interface ScheduleSettings extends RulePrices {
+  schedule_id: string
+  base_message?: string
+  /** The user's cron expression before limitCronToTradingMode narrowed it. */
+  base_cron?: string
+  recipient_email?: string
+  rules: AlertRule[]
+  trading_mode?: TradingMode
+  /** Session state last applied by the trading-hours gate (lib/tradingHoursGate.ts). */
+  trading_gate?: 'open' | 'closed'
+  /** Paused by the gate rather than the user; the gate resumes it when the session opens. */
+  trading_paused?: boolean
+  /** executed_at of the latest run whose prices were recorded (lib/alertPriceTracker.ts). */
+  prices_recorded_at?: string
+  updated_at?: string
+}
+
+type SettingsStore = Record<string, ScheduleSettings>
+
+export type SettingsPatch = Partial<Pick<ScheduleSettings, 'recipient_email' | 'trading_mode' | 'rules'>>
+
+export interface SettingsChangeResult {
+  success: boolean
+  status: number
+  /** The saved settings — also on failure, since they are saved before the schedule is updated. */
+  settings: ScheduleSettings
+  schedule?: Schedule
+  error?: string
+  details?: string
+  schema_error?: SchemaError
+}
+
+function defaultSettings(scheduleId: string): ScheduleSettings {
+  return { schedule_id: scheduleId, rules: [] }
+}
+
+export async function getScheduleSettings(scheduleId: string): Promise<ScheduleSettings> {
+  const store = await readStore<SettingsStore>(STORE_NAME, {})
+  return { ...defaultSettings(scheduleId), ...store[scheduleId] }
+}
+
+/** Settings of every schedule that has any stored. */
+export async function listScheduleSettings(): Promise<ScheduleSettings[]> {
+  const store = await readStore<SettingsStore>(STORE_NAME, {})
+  return Object.keys(store).map(scheduleId => ({ ...defaultSettings(scheduleId), ...store[scheduleId] }))
+}
+
+export async function saveScheduleSettings(
+  scheduleId: string,
+  patch: Partial<Omit<ScheduleSettings, 'schedule_id'>>
+): Promise<ScheduleSettings> {
+  const store = await updateStore<SettingsStore>(STORE_NAME, {}, (current) => ({
+    ...current,
+    [scheduleId]: {
+      ...defaultSettings(scheduleId),
+      ...current[scheduleId],
+      ...patch,
+      updated_at: new Date().toISOString(),
+    },
+  }))
+  return store[scheduleId]
+}
+
+/** Agent instructions for the configured recipient. */
+export function buildRecipientInstructions(recipientEmail?: string): string {
+  if (!recipientEmail) return ''
+  return `Recipient — send the email alert with the gmail tool to ${recipientEmail} and set "recipient_email" to that address.`
+}
+
+/**
+ * Agent instructions for the schedule's trading mode. The window itself is
+ * enforced by the scheduler (the narrowed cron, the local engine and the
+ * trading-hours gate); this is the agent-side backstop for a run that still
+ * lands outside it, e.g. while the server that runs the gate was down.
+ */
+export function buildTradingHoursInstructions(mode: TradingMode = 'always'): string {
+  if (mode === 'always') return ''
+
+  const hours = mode === 'market_hours'
+    ? 'during NYSE/NASDAQ regular trading hours (9:30-16:00 America/New_York, 13:00 on early-close days)'
+    : 'during NYSE/NASDAQ extended trading hours (4:00-20:00 America/New_York, 17:00 on early-close days)'
+  return [
+    `Trading hours — only run ${hours} on trading days.`,
+    'Outside those hours, on weekends and on exchange holidays, do not look up prices or send email; respond with "market_status": "closed" and "email_sent": false.',
+  ].join('\n')
+}
+
+/** Compose the full agent message from a base message and the schedule's settings. */
+export function composeScheduleMessage(baseMessage: string, settings: ScheduleSettings): string {
+  return joinScheduleMessage(baseMessage, [
+    buildRecipientInstructions(settings.recipient_email),
+    buildRuleInstructions(settings.rules, settings),
+    buildTradingHoursInstructions(settings.trading_mode),
+  ])
+}
+
+/**
+ * Re-compose the schedule's message and trading-hours cron from its stored
+ * settings and push them to the scheduler if they changed. Returns the
+ * (possibly updated) schedule.
+ */
+export async function syncScheduleMessage(scheduleId: string): Promise<SchedulerResult<Schedule>> {
+  const backend = getSchedulerBackend()
+  const current = await backend.getSchedule(scheduleId)
+  if (!current.success || !current.data) return current
+
+  let settings = await getScheduleSettings(scheduleId)
+  if (settings.base_message === undefined || settings.base_cron === undefined) {
+    settings = await saveScheduleSettings(scheduleId, {
+      base_message: settings.base_message ?? stripInjectedSettings(current.data.message),
+      base_cron: settings.base_cron ?? current.data.cron_expression,
+    })
+  }
+
+  const message = composeScheduleMessage(settings.base_message!, settings)
+  const cronExpression = limitCronToTradingMode(settings.base_cron!, current.data.timezone, settings.trading_mode ?? 'always')
+  if (message === current.data.message && cronExpression === current.data.cron_expression) return current
+
+  return backend.updateSchedule(scheduleId, { message, cron_expression: cronExpression })
+}
+
+/** What the audit trail records of a schedule's settings and the schedule they produce. */
+function auditSnapshot(settings: ScheduleSettings, schedule: Schedule | undefined): Record<string, unknown> {
+  return {
+    recipient_email: settings.recipient_email ?? null,
+    trading_mode: settings.trading_mode ?? 'always',
+    rules: settings.rules,
+    ...(schedule && { cron_expression: schedule.cron_expression, message: schedule.message }),
+  }
+}
+
+/**
+ * Save a settings patch and push it into the schedule — the /api/settings and
+ * /api/alert-rules counterpart of an /api/scheduler update: the updated
+ * schedule is schema-validated and the change is recorded in the audit trail.
+ * Callers check the client rate limit first.
+ */
+export async function changeScheduleSettings(
+  request: Request,
+  action: Extract<AuditAction, 'update-settings' | 'update-rules'>,
+  scheduleId: string,
+  patch: SettingsPatch
+): Promise<SettingsChangeResult> {
+  const [previous, current] = await Promise.all([getScheduleSettings(scheduleId), getSchedulerBackend().getSchedule(scheduleId)])
+  let settings = await saveScheduleSettings(scheduleId, patch)
+  let synced = await syncScheduleMessage(scheduleId)
+  // A new trading mode takes effect now, not at the next session boundary
+  if (synced.success && patch.trading_mode !== undefined && (await reconcileTradingGate(scheduleId))) {
+    settings = await getScheduleSettings(scheduleId)
+    synced = await getSchedulerBackend().getSchedule(scheduleId)
+  }
+
+  let result: SettingsChangeResult
+  if (!synced.success || !synced.data) {
+    result = { success: false, status: synced.status, settings, error: synced.error, details: synced.details }
+  } else {
+    const checked = validateResource('Schedule', synced.data, SCHEDULER_SCHEMA_MODE)
+    result = checked.success
+      ? { success: true, status: 200, settings, schedule: checked.data }
+      : { success: false, status: 502, settings, error: describeSchemaError(checked.error), schema_error: checked.error }
+  }
+
+  try {
+    await recordAudit({
+      ...getRequestActor(request),
+      action,
+      target_type: 'schedule',
+      target_id: scheduleId,
+      success: result.success,
+      status: result.status,
+      error: result.success ? null : result.error ?? 'Request failed',
+      before: auditSnapshot(previous, current.data),
+      after: result.success ? auditSnapshot(settings, result.schedule) : null,
+    })
+  } catch (auditError) {
+    console.error('Failed to record audit entry:', auditError)
+  }
+  return result
+}
@@ -0,0 +1,99 @@
+/**
+ * Schedule Templates
+ *
+ * Ready-made schedules for common trading cadences. Each template fills in the
+ * cron, timezone, retry settings and an agent message tuned for that cadence,
+ * and can ask for a trading-hours mode (see lib/marketCalendar.ts) to be set
+ * once the schedule exists. A cron can only bound whole hours; the trading
+ * mode is what holds runs to the 9:30 open, early closes and trading days, on
+ * either scheduler backend (lib/tradingHoursGate.ts for the hosted one).
+ */
+
+import { MARKET_TIMEZONE, type TradingMode } from './marketCalendar'
+
+// Types
+export type ScheduleTemplateId = 'market-open' | 'market-close' | 'intraday-5min' | 'pre-market'
+
+export interface ScheduleTemplate {
+  id: ScheduleTemplateId
+  name: string
+  description: string
+  cron_expression: string
+  timezone: string
+  max_retries: number
+  retry_delay: number
+  trading_mode?: TradingMode
+  buildMessage: (symbol: string) => string
+}
+
+export const SCHEDULE_TEMPLATES: ScheduleTemplate[] = [
+  {
+    id: 'pre-market',
+    name: 'Pre-market movers',
+    description: 'Pre-market price and overnight news at 8:30 ET',
+    cron_expression: '30 8 * * 1-5',
+    timezone: MARKET_TIMEZONE,
+    max_retries: 2,
+    retry_delay: 120,
+    buildMessage: (symbol) =>
+      `Fetch the latest pre-market price for ${symbol} and compare it with the previous close. ` +
+      `Report the pre-market change percentage as the daily change, and mention any overnight news or earnings that explain the move. ` +
+      `Send an email alert summarising the pre-market move.`,
+  },
+  {
+    id: 'market-open',
+    name: 'Market open snapshot',
+    description: 'Opening price and gap one minute after the bell',
+    cron_expression: '31 9 * * 1-5',
+    timezone: MARKET_TIMEZONE,
+    max_retries: 2,
+    retry_delay: 60,
+    trading_mode: 'market_hours',
+    buildMessage: (symbol) =>
+      `Fetch ${symbol}'s opening price and the gap from the previous close as a percentage. ` +
+      `Report the current price and daily change percentage, note whether the stock gapped up or down, ` +
+      `and send an email alert with the opening snapshot.`,
+  },
+  {
+    id: 'intraday-5min',
+    name: 'Every 5 min, regular hours',
+    description: 'Price checks every 5 minutes, 9:30–16:00 ET on trading days',
+    // The hours bound the cron; market_hours skips 9:00-9:25, early closes and holidays
+    cron_expression: '*/5 9-15 * * 1-5',
+    timezone: MARKET_TIMEZONE,
+    // A retry later than the next run is no use
+    max_retries: 1,
+    retry_delay: 60,
+    trading_mode: 'market_hours',
+    buildMessage: (symbol) =>
+      `Fetch the current ${symbol} stock price and daily change percentage. ` +
+      `Keep the summary to one or two sentences and send an email alert.`,
+  },
+  {
+    id: 'market-close',
+    name: 'Close summary',
+    description: 'Closing price and day summary at 16:05 ET',
+    cron_expression: '5 16 * * 1-5',
+    timezone: MARKET_TIMEZONE,
+    max_retries: 3,
+    retry_delay: 300,
+    buildMessage: (symbol) =>
+      `Fetch ${symbol}'s closing price for today along with the day's high, low and daily change percentage. ` +
+      `Summarise how the stock traded during the session and send an email alert with the close summary.`,
+  },
+]
+
+export function getScheduleTemplate(id: string): ScheduleTemplate | null {
+  return SCHEDULE_TEMPLATES.find(template => template.id === id) ?? null
+}
+
+/** createSchedule fields for `template` applied to `symbol`. */
+export function buildTemplateSchedule(template: ScheduleTemplate, symbol: string) {
+  return {
+    cron_expression: template.cron_expression,
+    timezone: template.timezone,
+    max_retries: template.max_retries,
+    retry_delay: template.retry_delay,
+    message: template.buildMessage(symbol),
+  }
+}
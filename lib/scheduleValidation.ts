@@ -0,0 +1,81 @@
+/**
+ * Schedule Validation
+ *
+ * Field-level validation for editable schedule settings, shared by the
+ * schedule editor (client) and the /api/scheduler update action (server).
+ */
+
+import { validateCron } from './cron'
+
+export interface EditableScheduleFields {
+  cron_expression: string
+  timezone: string
+  max_retries: number
+  retry_delay: number
+  message: string
+}
+
+export type ScheduleFieldErrors = Partial<Record<keyof EditableScheduleFields, string>>
+
+export const EDITABLE_SCHEDULE_FIELDS: (keyof EditableScheduleFields)[] = [
+  'cron_expression',
+  'timezone',
+  'max_retries',
+  'retry_delay',
+  'message',
+]
+
+export const MAX_RETRIES_LIMIT = 10
+export const MAX_RETRY_DELAY_SECONDS = 86400
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate the fields present in `fields`. Missing fields are not checked,
+ * so the same function works for full edits and partial updates.
+ */
+export function validateScheduleFields(fields: Partial<Record<keyof EditableScheduleFields, unknown>>): ScheduleFieldErrors {
+  const errors: ScheduleFieldErrors = {}
+
+  if (fields.cron_expression !== undefined) {
+    const error = typeof fields.cron_expression === 'string'
+      ? validateCron(fields.cron_expression)
+      : 'Cron expression must be a string'
+    if (error) errors.cron_expression = error
+  }
+
+  if (fields.timezone !== undefined) {
+    if (typeof fields.timezone !== 'string' || !isValidTimezone(fields.timezone)) {
+      errors.timezone = 'Unknown timezone'
+    }
+  }
+
+  if (fields.max_retries !== undefined) {
+    const value = fields.max_retries
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_RETRIES_LIMIT) {
+      errors.max_retries = `Max retries must be a whole number between 0 and ${MAX_RETRIES_LIMIT}`
+    }
+  }
+
+  if (fields.retry_delay !== undefined) {
+    const value = fields.retry_delay
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_RETRY_DELAY_SECONDS) {
+      errors.retry_delay = `Retry delay must be a whole number of seconds between 0 and ${MAX_RETRY_DELAY_SECONDS}`
+    }
+  }
+
+  if (fields.message !== undefined) {
+    if (typeof fields.message !== 'string' || !fields.message.trim()) {
+      errors.message = 'Message cannot be empty'
+    }
+  }
+
+  return errors
+}
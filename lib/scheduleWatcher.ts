@@ -0,0 +1,187 @@
+/**
+ * Schedule Watcher (server-side)
+ *
+ * Watches schedules for new execution logs and state changes by polling the
+ * scheduler backend, and fans the changes out to subscribers (the SSE
+ * route). One polling loop runs per watched schedule no matter how many
+ * browsers are subscribed, and it stops when the last subscriber leaves.
+ *
+ * Polled data is validated against lib/schedulerSchemas.ts like every
+ * /api/scheduler response; a mismatch is reported as an `upstream_error`
+ * instead of being pushed.
+ *
+ * NEVER import this from client components.
+ */
+
+import { getSchedulerBackend } from '@/lib/schedulerBackend'
+import { validateResource, describeSchemaError, SCHEDULER_SCHEMA_MODE } from '@/lib/schedulerSchemas'
+import type { Schedule, ExecutionLog } from '@/lib/scheduler'
+
+const POLL_INTERVAL_MS = Number(process.env.SCHEDULE_WATCH_INTERVAL_MS) || 5000
+const LOG_PAGE_SIZE = 25
+const MAX_SEEN_IDS = 500
+
+// Fields whose change is worth pushing to the dashboard
+const SCHEDULE_STATE_FIELDS: (keyof Schedule)[] = [
+  'is_active',
+  'next_run_time',
+  'last_run_at',
+  'last_run_success',
+  'cron_expression',
+  'timezone',
+  'max_retries',
+  'retry_delay',
+  'message',
+  'updated_at',
+]
+
+// Types
+export type WatchEvent =
+  | { type: 'schedule'; schedule: Schedule }
+  | { type: 'execution'; log: ExecutionLog }
+  | { type: 'upstream_error'; error: string }
+
+type WatchListener = (event: WatchEvent) => void
+
+interface Watch {
+  listeners: Set<WatchListener>
+  timer: ReturnType<typeof setTimeout> | null
+  schedule: Schedule | null
+  scheduleKey: string
+  seen: Set<string>
+  /** When the watch started; executions from then on are new even if the first poll fails. */
+  startedAt: number
+  primed: boolean
+  primedWaiters: (() => void)[]
+  lastError: string | null
+}
+
+const watches = new Map<string, Watch>()
+
+function stateKey(schedule: Schedule): string {
+  return JSON.stringify(SCHEDULE_STATE_FIELDS.map(field => schedule[field]))
+}
+
+function emit(watch: Watch, event: WatchEvent) {
+  for (const listener of Array.from(watch.listeners)) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Schedule watch listener failed:', error)
+    }
+  }
+}
+
+async function poll(scheduleId: string, watch: Watch) {
+  const backend = getSchedulerBackend()
+  const [scheduleResult, logsResult] = await Promise.all([
+    backend.getSchedule(scheduleId),
+    backend.getLogs(scheduleId, { skip: 0, limit: LOG_PAGE_SIZE }),
+  ])
+
+  const checkedSchedule = scheduleResult.success ? validateResource('Schedule', scheduleResult.data, SCHEDULER_SCHEMA_MODE) : null
+  const checkedLogs = logsResult.success ? validateResource('ExecutionList', logsResult.data, SCHEDULER_SCHEMA_MODE) : null
+
+  let error: string | null = null
+  if (!scheduleResult.success) error = scheduleResult.error ?? 'Failed to poll schedule'
+  else if (!logsResult.success) error = logsResult.error ?? 'Failed to poll execution logs'
+  else if (!checkedSchedule.success) error = describeSchemaError(checkedSchedule.error)
+  else if (!checkedLogs.success) error = describeSchemaError(checkedLogs.error)
+  if (error) {
+    // Report each distinct failure once instead of on every poll
+    if (error !== watch.lastError) emit(watch, { type: 'upstream_error', error })
+    watch.lastError = error
+    return
+  }
+  watch.lastError = null
+
+  const schedule = checkedSchedule.data
+  const key = stateKey(schedule)
+  if (key !== watch.scheduleKey) {
+    watch.schedule = schedule
+    watch.scheduleKey = key
+    emit(watch, { type: 'schedule', schedule })
+  }
+
+  // Logs are newest first; push unseen ones oldest first. The first successful
+  // poll only records what existed before the watch started — executions
+  // logged since (say, while upstream was failing) are still pushed.
+  const executions = (checkedLogs.data.executions ?? []) as ExecutionLog[]
+  const unseen = executions.filter(log => !watch.seen.has(log.id)).reverse()
+  for (const log of unseen) {
+    watch.seen.add(log.id)
+    if (watch.primed || new Date(log.executed_at).getTime() >= watch.startedAt) emit(watch, { type: 'execution', log })
+  }
+  if (!watch.primed) {
+    watch.primed = true
+    watch.primedWaiters.splice(0).forEach(resolve => resolve())
+  }
+
+  if (watch.seen.size > MAX_SEEN_IDS) {
+    watch.seen = new Set(Array.from(watch.seen).slice(-MAX_SEEN_IDS))
+  }
+}
+
+function schedulePoll(scheduleId: string, watch: Watch, delay: number) {
+  watch.timer = setTimeout(async () => {
+    try {
+      await poll(scheduleId, watch)
+    } catch (error) {
+      console.error('Schedule watch poll failed:', error)
+    }
+    if (watches.get(scheduleId) === watch) schedulePoll(scheduleId, watch, POLL_INTERVAL_MS)
+  }, delay)
+}
+
+/**
+ * Subscribe to a schedule's state changes and new executions. New subscribers
+ * immediately receive the current schedule state once it is known.
+ * Returns an unsubscribe function.
+ */
+export function watchSchedule(scheduleId: string, listener: WatchListener): () => void {
+  let watch = watches.get(scheduleId)
+  if (!watch) {
+    watch = {
+      listeners: new Set(),
+      timer: null,
+      schedule: null,
+      scheduleKey: '',
+      seen: new Set(),
+      startedAt: Date.now(),
+      primed: false,
+      primedWaiters: [],
+      lastError: null,
+    }
+    watches.set(scheduleId, watch)
+    schedulePoll(scheduleId, watch, 0)
+  } else if (watch.schedule) {
+    listener({ type: 'schedule', schedule: watch.schedule })
+  }
+  watch.listeners.add(listener)
+
+  const current = watch
+  return () => {
+    current.listeners.delete(listener)
+    if (current.listeners.size === 0 && watches.get(scheduleId) === current) {
+      if (current.timer) clearTimeout(current.timer)
+      watches.delete(scheduleId)
+    }
+  }
+}
+
+/**
+ * Resolve once the schedule's watch has recorded the existing logs, so every
+ * execution after this point is reported as new. Resolves immediately for
+ * unwatched schedules and after `timeoutMs` if upstream doesn't answer.
+ */
+export function whenWatchPrimed(scheduleId: string, timeoutMs: number = 10000): Promise<void> {
+  const watch = watches.get(scheduleId)
+  if (!watch || watch.primed) return Promise.resolve()
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, timeoutMs)
+    watch.primedWaiters.push(() => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+}
@@ -8,6 +8,10 @@
  */
 
 import { useState } from 'react'
+import { parseCron, describeCron, getNextRuns, findCronRuns } from './cron'
+import { isWithinTradingMode } from './marketCalendar'
+import { actorHeaders } from './activity'
+import { validateResource, describeSchemaError, type SchemaError } from './schedulerSchemas'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -44,6 +48,8 @@ export interface ExecutionLog {
   response_status: number
   response_output: string
   error_message: string | null
+  /** Token of the tracked manual trigger that started the run (local backend only). */
+  trigger_token?: string
 }
 
 export interface Webhook {
@@ -59,17 +65,53 @@ export interface Webhook {
   trigger_count: number
 }
 
+export type TriggerStatus = 'pending' | 'running' | 'success' | 'failed' | 'timeout'
+
+/** A manual trigger followed through to its execution log. */
+export interface TrackedTrigger {
+  token: string
+  schedule_id: string
+  status: TriggerStatus
+  triggered_at: string
+  updated_at: string
+  /** Attempt number of the latest matching execution, while retries are in flight. */
+  attempt: number | null
+  execution: ExecutionLog | null
+  error: string | null
+}
+
+/** Sent with 429 responses (and successful triggers, for the cooldown they start). */
+export interface RateLimitInfo {
+  scope: 'trigger_cooldown' | 'client'
+  limit: number
+  remaining: number
+  retry_after_ms: number
+  retry_at: string
+}
+
 interface ApiResult<T = Record<string, unknown>> {
   success: boolean
   error?: string
   details?: string
   data?: T
+  rate_limit?: RateLimitInfo
 }
 
 // ---------------------------------------------------------------------------
 // Helper
 // ---------------------------------------------------------------------------
 
+/** JSON headers for POST/DELETE calls, tagged with the actor for the audit trail. */
+function mutationHeaders(): Record<string, string> {
+  return { 'Content-Type': 'application/json', ...actorHeaders() }
+}
+
+/** A route response without its `success`/`error`/`details` envelope fields. */
+function unwrapEnvelope(data: Record<string, unknown>): Record<string, unknown> {
+  const { success: _, error: __, details: ___, ...rest } = data
+  return rest
+}
+
 function buildQuery(params: Record<string, string | number | boolean | undefined | null>): string {
   const query = new URLSearchParams()
   for (const [key, value] of Object.entries(params)) {
@@ -109,14 +151,15 @@ export async function listSchedules(params?: {
 }
 
 /** Get a single schedule by ID. */
-export async function getSchedule(scheduleId: string): Promise<{ success: boolean; schedule?: Schedule; error?: string }> {
+export async function getSchedule(scheduleId: string): Promise<{ success: boolean; schedule?: Schedule; error?: string; schemaError?: SchemaError }> {
   try {
     const qs = buildQuery({ action: 'get', scheduleId })
     const res = await fetch(`/api/scheduler?${qs}`)
     const data = await res.json()
-    if (!data.success) return { success: false, error: data.error }
-    const { success: _, error: __, details: ___, ...schedule } = data
-    return { success: true, schedule: schedule as unknown as Schedule }
+    if (!data.success) return { success: false, error: data.error, schemaError: data.schema_error }
+    const parsed = validateResource('Schedule', unwrapEnvelope(data))
+    if (!parsed.success) return { success: false, error: describeSchemaError(parsed.error), schemaError: parsed.error }
+    return { success: true, schedule: parsed.data }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Network error' }
   }
@@ -167,6 +210,32 @@ export async function getScheduleLogs(
   }
 }
 
+/**
+ * Get every execution log for a schedule since `since`, paging through
+ * `getScheduleLogs` (logs are returned newest first). Stops after `maxPages`.
+ */
+export async function getScheduleLogsSince(
+  scheduleId: string,
+  since: Date,
+  params?: { pageSize?: number; maxPages?: number }
+): Promise<{ success: boolean; executions: ExecutionLog[]; error?: string }> {
+  const pageSize = params?.pageSize ?? 100
+  const maxPages = params?.maxPages ?? 20
+  const executions: ExecutionLog[] = []
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await getScheduleLogs(scheduleId, { skip: page * pageSize, limit: pageSize })
+    if (!result.success) return { success: false, executions, error: result.error }
+
+    const inRange = result.executions.filter(log => new Date(log.executed_at) >= since)
+    executions.push(...inRange)
+
+    if (result.executions.length < pageSize || inRange.length < result.executions.length) break
+  }
+
+  return { success: true, executions }
+}
+
 /** Get recent executions across all schedules. */
 export async function getRecentExecutions(params?: {
   agentId?: string
@@ -207,17 +276,48 @@ export async function createSchedule(params: {
   timezone?: string
   max_retries?: number
   retry_delay?: number
-}): Promise<{ success: boolean; schedule?: Schedule; error?: string }> {
+}): Promise<{ success: boolean; schedule?: Schedule; error?: string; schemaError?: SchemaError }> {
   try {
     const res = await fetch('/api/scheduler', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: mutationHeaders(),
       body: JSON.stringify({ action: 'create', ...params }),
     })
     const data = await res.json()
-    if (!data.success) return { success: false, error: data.error }
-    const { success: _, error: __, details: ___, ...schedule } = data
-    return { success: true, schedule: schedule as unknown as Schedule }
+    if (!data.success) return { success: false, error: data.error, schemaError: data.schema_error }
+    const parsed = validateResource('Schedule', unwrapEnvelope(data))
+    if (!parsed.success) return { success: false, error: describeSchemaError(parsed.error), schemaError: parsed.error }
+    return { success: true, schedule: parsed.data }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Update an existing schedule's cron, timezone, retry settings or message.
+ * `message` is the base message — dashboard settings are re-injected server-side.
+ */
+export async function updateSchedule(
+  scheduleId: string,
+  params: {
+    cron_expression?: string
+    timezone?: string
+    max_retries?: number
+    retry_delay?: number
+    message?: string
+  }
+): Promise<{ success: boolean; schedule?: Schedule; error?: string; fieldErrors?: Record<string, string>; schemaError?: SchemaError }> {
+  try {
+    const res = await fetch('/api/scheduler', {
+      method: 'POST',
+      headers: mutationHeaders(),
+      body: JSON.stringify({ action: 'update', scheduleId, ...params }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error, fieldErrors: data.fieldErrors, schemaError: data.schema_error }
+    const parsed = validateResource('Schedule', unwrapEnvelope(data))
+    if (!parsed.success) return { success: false, error: describeSchemaError(parsed.error), schemaError: parsed.error }
+    return { success: true, schedule: parsed.data }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Network error' }
   }
@@ -228,7 +328,7 @@ export async function pauseSchedule(scheduleId: string): Promise<ApiResult> {
   try {
     const res = await fetch('/api/scheduler', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: mutationHeaders(),
       body: JSON.stringify({ action: 'pause', scheduleId }),
     })
     return res.json()
@@ -237,12 +337,15 @@ export async function pauseSchedule(scheduleId: string): Promise<ApiResult> {
   }
 }
 
-/** Resume a paused schedule. */
-export async function resumeSchedule(scheduleId: string): Promise<ApiResult> {
+/**
+ * Resume a paused schedule. `deferred` is set when a schedule with a trading
+ * mode is resumed outside its hours: it stays paused until the next session.
+ */
+export async function resumeSchedule(scheduleId: string): Promise<ApiResult & { deferred?: boolean }> {
   try {
     const res = await fetch('/api/scheduler', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: mutationHeaders(),
       body: JSON.stringify({ action: 'resume', scheduleId }),
     })
     return res.json()
@@ -251,12 +354,17 @@ export async function resumeSchedule(scheduleId: string): Promise<ApiResult> {
   }
 }
 
-/** Manually trigger a schedule to run immediately (returns 202 async). */
-export async function triggerScheduleNow(scheduleId: string): Promise<ApiResult> {
+/**
+ * Manually trigger a schedule to run immediately (returns 202 async).
+ * `trigger` carries the correlation token for getTriggerStatus.
+ */
+export async function triggerScheduleNow(
+  scheduleId: string
+): Promise<ApiResult & { trigger?: TrackedTrigger; cooldown?: RateLimitInfo }> {
   try {
     const res = await fetch('/api/scheduler', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: mutationHeaders(),
       body: JSON.stringify({ action: 'trigger', scheduleId }),
     })
     return res.json()
@@ -265,6 +373,50 @@ export async function triggerScheduleNow(scheduleId: string): Promise<ApiResult>
   }
 }
 
+/** Current state of a tracked trigger. */
+export async function getTriggerStatus(token: string): Promise<{ success: boolean; trigger?: TrackedTrigger; error?: string }> {
+  try {
+    const qs = buildQuery({ action: 'trigger-status', token })
+    const res = await fetch(`/api/scheduler?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, trigger: data.trigger }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Trigger a schedule and follow it until its execution is logged or the
+ * server gives up. `onUpdate` receives every state change. `cooldownUntil`
+ * (epoch ms, local clock) is when the schedule can be triggered again — set
+ * after a successful trigger and when the request was rate limited.
+ */
+export async function triggerAndTrack(
+  scheduleId: string,
+  options: { onUpdate?: (trigger: TrackedTrigger) => void; pollIntervalMs?: number } = {}
+): Promise<{ success: boolean; trigger?: TrackedTrigger; error?: string; rateLimit?: RateLimitInfo; cooldownUntil?: number }> {
+  const { onUpdate, pollIntervalMs = 2000 } = options
+  const started = await triggerScheduleNow(scheduleId)
+  // Count down from the server's relative delay so clock skew doesn't matter
+  const limit = started.rate_limit ?? started.cooldown
+  const cooldownUntil = limit ? Date.now() + limit.retry_after_ms : undefined
+  if (!started.success || !started.trigger) {
+    return { success: false, error: started.error ?? 'Failed to trigger schedule', rateLimit: started.rate_limit, cooldownUntil }
+  }
+
+  let trigger = started.trigger
+  onUpdate?.(trigger)
+  while (trigger.status === 'pending' || trigger.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs))
+    const result = await getTriggerStatus(trigger.token)
+    if (!result.success || !result.trigger) return { success: false, trigger, error: result.error, cooldownUntil }
+    if (result.trigger.updated_at !== trigger.updated_at) onUpdate?.(result.trigger)
+    trigger = result.trigger
+  }
+  return { success: true, trigger, cooldownUntil }
+}
+
 // ---------------------------------------------------------------------------
 // DELETE
 // ---------------------------------------------------------------------------
@@ -274,7 +426,7 @@ export async function deleteSchedule(scheduleId: string): Promise<ApiResult> {
   try {
     const res = await fetch('/api/scheduler', {
       method: 'DELETE',
-      headers: { 'Content-Type': 'application/json' },
+      headers: mutationHeaders(),
       body: JSON.stringify({ scheduleId }),
     })
     return res.json()
@@ -284,50 +436,163 @@ export async function deleteSchedule(scheduleId: string): Promise<ApiResult> {
 }
 
 // ---------------------------------------------------------------------------
-// Cron helpers
+// Webhooks
 // ---------------------------------------------------------------------------
 
-/** Convert a 5-part cron expression to human-readable text. */
-export function cronToHuman(cron: string): string {
-  if (!cron || typeof cron !== 'string') return cron ?? 'No schedule'
-  const parts = cron.split(' ')
-  if (parts.length !== 5) return cron
+/** List webhooks (optionally filtered by agent). */
+export async function listWebhooks(agentId?: string): Promise<{ success: boolean; webhooks: Webhook[]; error?: string }> {
+  try {
+    const qs = buildQuery({ action: 'webhooks', agentId })
+    const res = await fetch(`/api/scheduler?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, webhooks: [], error: data.error }
+    return { success: true, webhooks: data.webhooks || [] }
+  } catch (error) {
+    return { success: false, webhooks: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
 
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts
+/** Get a single webhook by ID. */
+export async function getWebhook(webhookId: string): Promise<{ success: boolean; webhook?: Webhook; error?: string; schemaError?: SchemaError }> {
+  try {
+    const qs = buildQuery({ action: 'webhook', webhookId })
+    const res = await fetch(`/api/scheduler?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error, schemaError: data.schema_error }
+    const parsed = validateResource('Webhook', unwrapEnvelope(data))
+    if (!parsed.success) return { success: false, error: describeSchemaError(parsed.error), schemaError: parsed.error }
+    return { success: true, webhook: parsed.data }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
 
-  if (dayOfMonth === '*' && month === '*') {
-    if (dayOfWeek === '*') {
-      if (hour === '*') {
-        if (minute.startsWith('*/')) return `Every ${minute.slice(2)} minutes`
-        return `Every hour at :${minute.padStart(2, '0')}`
-      }
-      if (hour.startsWith('*/')) return `Every ${hour.slice(2)} hours`
-      return `Every day at ${hour}:${minute.padStart(2, '0')}`
-    }
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-    if (dayOfWeek === '1-5') return `Weekdays at ${hour}:${minute.padStart(2, '0')}`
-    if (dayOfWeek === '0,6') return `Weekends at ${hour}:${minute.padStart(2, '0')}`
-    const dayName = days[parseInt(dayOfWeek)] || dayOfWeek
-    return `Every ${dayName} at ${hour}:${minute.padStart(2, '0')}`
+/** Create a webhook that runs an agent when its URL is called. */
+export async function createWebhook(params: {
+  agent_id: string
+  description?: string
+}): Promise<{ success: boolean; webhook?: Webhook; error?: string; schemaError?: SchemaError }> {
+  try {
+    const res = await fetch('/api/scheduler', {
+      method: 'POST',
+      headers: mutationHeaders(),
+      body: JSON.stringify({ action: 'create-webhook', ...params }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error, schemaError: data.schema_error }
+    const parsed = validateResource('Webhook', unwrapEnvelope(data))
+    if (!parsed.success) return { success: false, error: describeSchemaError(parsed.error), schemaError: parsed.error }
+    return { success: true, webhook: parsed.data }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
   }
+}
+
+/** Enable or disable a webhook. Disabled webhooks reject calls to their URL. */
+export async function setWebhookEnabled(
+  webhookId: string,
+  enabled: boolean
+): Promise<{ success: boolean; webhook?: Webhook; error?: string; schemaError?: SchemaError }> {
+  try {
+    const res = await fetch('/api/scheduler', {
+      method: 'POST',
+      headers: mutationHeaders(),
+      body: JSON.stringify({ action: enabled ? 'enable-webhook' : 'disable-webhook', webhookId }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error, schemaError: data.schema_error }
+    const parsed = validateResource('Webhook', unwrapEnvelope(data))
+    if (!parsed.success) return { success: false, error: describeSchemaError(parsed.error), schemaError: parsed.error }
+    return { success: true, webhook: parsed.data }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
 
-  if (dayOfMonth !== '*' && month === '*') {
-    return `Day ${dayOfMonth} of every month at ${hour}:${minute.padStart(2, '0')}`
+/** Permanently delete a webhook. */
+export async function deleteWebhook(webhookId: string): Promise<ApiResult> {
+  try {
+    const res = await fetch('/api/scheduler', {
+      method: 'DELETE',
+      headers: mutationHeaders(),
+      body: JSON.stringify({ webhookId }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
   }
+}
 
-  return cron
+// ---------------------------------------------------------------------------
+// Cron helpers
+// ---------------------------------------------------------------------------
+
+export { parseCron, validateCron, describeCron, getNextRuns, type ParsedCron } from './cron'
+
+/** Convert a 5-part cron expression to human-readable text. Invalid expressions are returned as-is. */
+export function cronToHuman(cron: string): string {
+  if (!cron || typeof cron !== 'string') return cron ?? 'No schedule'
+  const parsed = parseCron(cron)
+  return parsed.cron ? describeCron(parsed.cron) : cron
 }
 
 // ---------------------------------------------------------------------------
 // React hook
 // ---------------------------------------------------------------------------
 
+export type BulkAction = 'pause' | 'resume' | 'trigger' | 'delete'
+
+export interface BulkItemResult {
+  scheduleId: string
+  success: boolean
+  error?: string
+}
+
+export interface BulkProgress {
+  action: BulkAction
+  total: number
+  completed: number
+  results: BulkItemResult[]
+  done: boolean
+}
+
+const BULK_CONCURRENCY = 3
+
+const BULK_OPERATIONS: Record<BulkAction, (scheduleId: string) => Promise<ApiResult>> = {
+  pause: pauseSchedule,
+  resume: resumeSchedule,
+  trigger: triggerScheduleNow,
+  delete: deleteSchedule,
+}
+
+// A week holds every weekday, the weekend and at least one open and close
+const OUTSIDE_HOURS_LOOKAHEAD_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Active schedules with any run in the next week outside regular market
+ * hours — i.e. the ones that will spend agent calls while the market is
+ * closed. The next run alone misses e.g. an hourly schedule checked mid-session.
+ */
+export function findSchedulesOutsideMarketHours(schedules: Schedule[], from: Date = new Date()): Schedule[] {
+  const until = from.getTime() + OUTSIDE_HOURS_LOOKAHEAD_MS
+  return schedules.filter(schedule => {
+    if (!schedule.is_active) return false
+    const { cron } = parseCron(schedule.cron_expression)
+    if (!cron) return false
+    // Stop at the first out-of-hours run, or at the first run past the week
+    const [run] = findCronRuns(cron, schedule.timezone, 1, from,
+      candidate => candidate.getTime() >= until || !isWithinTradingMode(candidate, 'market_hours'))
+    return !!run && run.getTime() < until
+  })
+}
+
 /** React hook for managing schedules with loading/error state. */
 export function useScheduler() {
   const [schedules, setSchedules] = useState<Schedule[]>([])
   const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null)
 
   const fetchSchedules = async (params?: { agentId?: string; is_active?: boolean }) => {
     setLoading(true)
@@ -381,14 +646,57 @@ export function useScheduler() {
     return result
   }
 
+  /**
+   * Run `action` on every schedule in `scheduleIds`, a few at a time.
+   * Progress and per-item results are published through `bulkProgress`.
+   */
+  const runBulk = async (action: BulkAction, scheduleIds: string[]) => {
+    const results: BulkItemResult[] = []
+    setError(null)
+    setBulkProgress({ action, total: scheduleIds.length, completed: 0, results: [], done: scheduleIds.length === 0 })
+
+    const queue = [...scheduleIds]
+    const worker = async () => {
+      while (queue.length > 0) {
+        const scheduleId = queue.shift()!
+        const result = await BULK_OPERATIONS[action](scheduleId)
+        results.push({ scheduleId, success: result.success, error: result.success ? undefined : result.error || 'Request failed' })
+
+        if (result.success) {
+          if (action === 'delete') {
+            setSchedules(prev => prev.filter(s => s.id !== scheduleId))
+            setTotal(prev => prev - 1)
+          } else if (action === 'pause' || action === 'resume') {
+            setSchedules(prev => prev.map(s => (s.id === scheduleId ? { ...s, is_active: action === 'resume' } : s)))
+          }
+        }
+        setBulkProgress(prev => prev && { ...prev, completed: results.length, results: [...results] })
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, scheduleIds.length) }, worker))
+    setBulkProgress(prev => prev && { ...prev, done: true })
+    return results
+  }
+
+  /** Pause every loaded schedule that would next run outside regular market hours. */
+  const pauseOutsideMarketHours = async () => {
+    const targets = findSchedulesOutsideMarketHours(schedules)
+    return runBulk('pause', targets.map(s => s.id))
+  }
+
   return {
     schedules,
     total,
     loading,
     error,
+    bulkProgress,
     fetchSchedules,
     toggleSchedule,
     trigger,
     remove,
+    runBulk,
+    pauseOutsideMarketHours,
+    clearBulkProgress: () => setBulkProgress(null),
   }
 }
@@ -0,0 +1,95 @@
+/**
+ * Scheduler Backend (server-side)
+ *
+ * The storage and execution engine behind /api/scheduler. Two backends share
+ * the same Schedule/ExecutionLog shapes:
+ *
+ *   - upstream (default) — the hosted Lyzr Scheduler API (lib/schedulerServer.ts)
+ *   - local              — an in-process engine that keeps schedules and logs in
+ *                          the server JSON store and calls the agent itself
+ *                          (lib/localScheduler.ts)
+ *
+ * Pick one with SCHEDULER_BACKEND=upstream|local.
+ *
+ * NEVER import this from client components.
+ */
+
+import type { Schedule, ExecutionLog, Webhook } from '@/lib/scheduler'
+import type { EditableScheduleFields } from '@/lib/scheduleValidation'
+import { upstreamBackend } from '@/lib/schedulerServer'
+import { localBackend, startLocalScheduler } from '@/lib/localScheduler'
+import { startTradingHoursGate } from '@/lib/tradingHoursGate'
+import { startAlertPriceTracker } from '@/lib/alertPriceTracker'
+
+// Types
+export type SchedulerBackendKind = 'upstream' | 'local'
+
+export interface SchedulerResult<T> {
+  success: boolean
+  data?: T
+  status: number
+  error?: string
+  details?: string
+}
+
+export interface ScheduleInput {
+  agent_id: string
+  cron_expression: string
+  message: string
+  timezone: string
+  max_retries: number
+  retry_delay: number
+}
+
+export interface ScheduleListParams {
+  agentId?: string
+  is_active?: boolean
+  skip?: number
+  limit?: number
+}
+
+export interface RecentExecutionParams {
+  agentId?: string
+  success?: boolean
+  hours?: number
+  days?: number
+  skip?: number
+  limit?: number
+}
+
+export interface SchedulerBackend {
+  kind: SchedulerBackendKind
+  listSchedules(params: ScheduleListParams): Promise<SchedulerResult<{ schedules: Schedule[]; total: number }>>
+  getSchedule(scheduleId: string): Promise<SchedulerResult<Schedule>>
+  getSchedulesForAgent(agentId: string): Promise<SchedulerResult<{ agent_id: string; schedules: Schedule[]; webhooks: Webhook[] }>>
+  createSchedule(input: ScheduleInput): Promise<SchedulerResult<Schedule>>
+  updateSchedule(scheduleId: string, patch: Partial<EditableScheduleFields>): Promise<SchedulerResult<Schedule>>
+  setScheduleActive(scheduleId: string, active: boolean): Promise<SchedulerResult<Schedule>>
+  deleteSchedule(scheduleId: string): Promise<SchedulerResult<void>>
+  /**
+   * Run the schedule now. Resolves once the run is accepted; it executes
+   * asynchronously. The local engine tags the run's logs with `triggerToken`;
+   * the hosted scheduler has nowhere to carry it.
+   */
+  triggerSchedule(scheduleId: string, triggerToken?: string): Promise<SchedulerResult<void>>
+  /** Execution logs for one schedule, newest first. */
+  getLogs(scheduleId: string, params?: { skip?: number; limit?: number }): Promise<SchedulerResult<{ executions: ExecutionLog[]; total: number }>>
+  getRecentExecutions(params: RecentExecutionParams): Promise<SchedulerResult<{ executions: ExecutionLog[]; total: number }>>
+}
+
+export const SCHEDULER_BACKEND: SchedulerBackendKind = process.env.SCHEDULER_BACKEND === 'local' ? 'local' : 'upstream'
+
+/**
+ * The configured backend. The local engine — or, for upstream, the
+ * trading-hours gate (lib/tradingHoursGate.ts) and the alert price poller
+ * (lib/alertPriceTracker.ts) — starts on first use.
+ */
+export function getSchedulerBackend(): SchedulerBackend {
+  if (SCHEDULER_BACKEND === 'local') {
+    startLocalScheduler()
+    return localBackend
+  }
+  startTradingHoursGate()
+  startAlertPriceTracker()
+  return upstreamBackend
+}
@@ -0,0 +1,165 @@
+/**
+ * Scheduler Schemas
+ *
+ * Runtime schemas for the Schedule, ExecutionLog and Webhook shapes in
+ * lib/scheduler.ts and the response envelopes that carry them. The scheduler
+ * route validates every backend response against them, so a shape change
+ * upstream fails loudly with field paths instead of surfacing as undefined
+ * fields deep in the UI.
+ *
+ * Two modes:
+ *   - compat (default) — unknown fields are tolerated and passed through
+ *   - strict           — unknown fields are reported as errors
+ *
+ * The server picks the mode with SCHEDULER_SCHEMA_MODE=compat|strict.
+ */
+
+import { z } from 'zod'
+import type { Schedule, ExecutionLog, Webhook } from './scheduler'
+
+// Types
+export type SchemaMode = 'compat' | 'strict'
+
+/** The mode server routes validate in; always 'compat' in the browser. */
+export const SCHEDULER_SCHEMA_MODE: SchemaMode = process.env.SCHEDULER_SCHEMA_MODE === 'strict' ? 'strict' : 'compat'
+
+export type SchedulerResource =
+  | 'Schedule'
+  | 'ScheduleList'
+  | 'AgentSchedules'
+  | 'ExecutionLog'
+  | 'ExecutionList'
+  | 'Webhook'
+  | 'WebhookList'
+
+export interface SchemaIssue {
+  /** Dotted path to the offending field, e.g. `executions[3].executed_at`. */
+  path: string
+  message: string
+  code: string
+}
+
+/** A response that didn't match its schema. */
+export interface SchemaError {
+  resource: SchedulerResource
+  issues: SchemaIssue[]
+}
+
+export interface SchemaResult<T> {
+  success: boolean
+  data?: T
+  error?: SchemaError
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const isoTimestamp = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid timestamp')
+
+const scheduleShape = {
+  id: z.string(),
+  user_id: z.string(),
+  agent_id: z.string(),
+  message: z.string(),
+  cron_expression: z.string(),
+  timezone: z.string(),
+  max_retries: z.number().int().nonnegative(),
+  retry_delay: z.number().nonnegative(),
+  is_active: z.boolean(),
+  created_at: isoTimestamp,
+  updated_at: isoTimestamp,
+  next_run_time: isoTimestamp.nullable(),
+  last_run_at: isoTimestamp.nullable(),
+  last_run_success: z.boolean().nullable(),
+}
+
+const executionLogShape = {
+  id: z.string(),
+  schedule_id: z.string(),
+  agent_id: z.string(),
+  user_id: z.string(),
+  session_id: z.string(),
+  executed_at: isoTimestamp,
+  attempt: z.number().int().positive(),
+  max_attempts: z.number().int().positive(),
+  success: z.boolean(),
+  payload_message: z.string(),
+  response_status: z.number().int(),
+  response_output: z.string(),
+  error_message: z.string().nullable(),
+  trigger_token: z.string().optional(),
+}
+
+const webhookShape = {
+  id: z.string(),
+  agent_id: z.string(),
+  user_id: z.string(),
+  description: z.string(),
+  webhook_url: z.string(),
+  is_active: z.boolean(),
+  created_at: isoTimestamp,
+  last_triggered_at: isoTimestamp.nullable(),
+  last_trigger_success: z.boolean().nullable(),
+  trigger_count: z.number().int().nonnegative(),
+}
+
+function objectFor<T extends z.ZodRawShape>(shape: T, mode: SchemaMode) {
+  return mode === 'strict' ? z.object(shape).strict() : z.object(shape).passthrough()
+}
+
+function buildSchemas(mode: SchemaMode) {
+  const schedule = objectFor(scheduleShape, mode)
+  const executionLog = objectFor(executionLogShape, mode)
+  const webhook = objectFor(webhookShape, mode)
+  return {
+    Schedule: schedule,
+    ScheduleList: objectFor({ schedules: z.array(schedule), total: z.number().int().nonnegative() }, mode),
+    AgentSchedules: objectFor({ agent_id: z.string(), schedules: z.array(schedule), webhooks: z.array(webhook) }, mode),
+    ExecutionLog: executionLog,
+    ExecutionList: objectFor({ executions: z.array(executionLog), total: z.number().int().nonnegative() }, mode),
+    Webhook: webhook,
+    WebhookList: objectFor({ webhooks: z.array(webhook) }, mode),
+  } satisfies Record<SchedulerResource, z.ZodTypeAny>
+}
+
+const SCHEMAS: Record<SchemaMode, ReturnType<typeof buildSchemas>> = {
+  compat: buildSchemas('compat'),
+  strict: buildSchemas('strict'),
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, key) => (typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key), '') || '(root)'
+}
+
+function toIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.flatMap((issue): SchemaIssue[] => {
+    // Report each unknown key on its own path rather than one issue on the parent
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map(key => ({ path: formatPath([...issue.path, key]), message: 'Unexpected field', code: issue.code }))
+    }
+    return [{ path: formatPath(issue.path), message: issue.message, code: issue.code }]
+  })
+}
+
+/** Validate `data` as `resource`. In compat mode extra fields are kept on the result. */
+export function validateResource(resource: 'Schedule', data: unknown, mode?: SchemaMode): SchemaResult<Schedule>
+export function validateResource(resource: 'ExecutionLog', data: unknown, mode?: SchemaMode): SchemaResult<ExecutionLog>
+export function validateResource(resource: 'Webhook', data: unknown, mode?: SchemaMode): SchemaResult<Webhook>
+export function validateResource(resource: SchedulerResource, data: unknown, mode?: SchemaMode): SchemaResult<Record<string, unknown>>
+export function validateResource(resource: SchedulerResource, data: unknown, mode: SchemaMode = 'compat'): SchemaResult<any> {
+  const parsed = SCHEMAS[mode][resource].safeParse(data)
+  if (parsed.success) return { success: true, data: parsed.data }
+  return { success: false, error: { resource, issues: toIssues(parsed.error) } }
+}
+
+/** One-line summary of a schema error, e.g. for an `error` string. */
+export function describeSchemaError(error: SchemaError): string {
+  const [first, ...rest] = error.issues
+  const detail = first ? `${first.path}: ${first.message}` : 'unknown issue'
+  return `Invalid ${error.resource} response (${detail}${rest.length ? `, +${rest.length} more` : ''})`
+}
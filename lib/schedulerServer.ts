@@ -0,0 +1,181 @@
+/**
+ * Scheduler Server Utility
+ *
+ * Server-side access to the Lyzr Scheduler API — the `upstream` scheduler
+ * backend (see lib/schedulerBackend.ts), plus the webhook endpoints, which only
+ * exist upstream.
+ *
+ * NEVER import this from client components — it uses LYZR_API_KEY.
+ */
+
+import type { Schedule, ExecutionLog, Webhook } from '@/lib/scheduler'
+import type { EditableScheduleFields } from '@/lib/scheduleValidation'
+import type {
+  SchedulerBackend,
+  SchedulerResult,
+  ScheduleInput,
+  ScheduleListParams,
+  RecentExecutionParams,
+} from '@/lib/schedulerBackend'
+
+export const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
+export const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+
+export function getSchedulerHeaders() {
+  return {
+    'Content-Type': 'application/json',
+    'accept': 'application/json',
+    'x-api-key': LYZR_API_KEY,
+  }
+}
+
+function buildQuery(params: Record<string, string | number | boolean | undefined>): string {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, String(value))
+  }
+  return query.toString() ? `?${query}` : ''
+}
+
+async function requestUpstream<T>(path: string, init?: RequestInit): Promise<SchedulerResult<T>> {
+  if (!LYZR_API_KEY) {
+    return { success: false, status: 500, error: 'LYZR_API_KEY not configured on server' }
+  }
+
+  try {
+    const response = await fetch(`${SCHEDULER_BASE_URL}${path}`, {
+      ...init,
+      headers: getSchedulerHeaders(),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      return {
+        success: false,
+        status: response.status,
+        error: `Scheduler API error: ${response.status}`,
+        details: errorText,
+      }
+    }
+
+    const data = response.status === 204 ? undefined : await response.json()
+    return { success: true, status: response.status, data }
+  } catch (error) {
+    return { success: false, status: 500, error: error instanceof Error ? error.message : 'Server error' }
+  }
+}
+
+/** GET /schedules/?user_id=&agent_id=&is_active=&skip=&limit= */
+export async function listUpstreamSchedules(
+  params: ScheduleListParams
+): Promise<SchedulerResult<{ schedules: Schedule[]; total: number }>> {
+  const qs = buildQuery({
+    user_id: LYZR_API_KEY,
+    agent_id: params.agentId,
+    is_active: params.is_active,
+    skip: params.skip,
+    limit: params.limit,
+  })
+  return requestUpstream(`/schedules/${qs}`)
+}
+
+/** GET /schedules/{schedule_id} */
+export async function fetchUpstreamSchedule(scheduleId: string): Promise<SchedulerResult<Schedule>> {
+  return requestUpstream<Schedule>(`/schedules/${scheduleId}`)
+}
+
+/** GET /schedules/by-agent/{agent_id} — schedules and webhooks attached to an agent. */
+export async function fetchUpstreamSchedulesForAgent(
+  agentId: string
+): Promise<SchedulerResult<{ agent_id: string; schedules: Schedule[]; webhooks: Webhook[] }>> {
+  return requestUpstream(`/schedules/by-agent/${agentId}`)
+}
+
+/** POST /schedules/ — 201 with the created schedule. */
+export async function createUpstreamSchedule(input: ScheduleInput): Promise<SchedulerResult<Schedule>> {
+  return requestUpstream<Schedule>('/schedules/', {
+    method: 'POST',
+    body: JSON.stringify({ ...input, user_id: LYZR_API_KEY }),
+  })
+}
+
+/** PUT /schedules/{schedule_id} — partial update, returns the updated schedule. */
+export async function updateUpstreamSchedule(
+  scheduleId: string,
+  patch: Partial<EditableScheduleFields>
+): Promise<SchedulerResult<Schedule>> {
+  return requestUpstream<Schedule>(`/schedules/${scheduleId}`, {
+    method: 'PUT',
+    body: JSON.stringify(patch),
+  })
+}
+
+/** POST /schedules/{schedule_id}/pause | /resume — returns the updated schedule. */
+export async function setUpstreamScheduleActive(scheduleId: string, active: boolean): Promise<SchedulerResult<Schedule>> {
+  return requestUpstream<Schedule>(`/schedules/${scheduleId}/${active ? 'resume' : 'pause'}`, { method: 'POST' })
+}
+
+/** DELETE /schedules/{schedule_id} — 204 No Content. */
+export async function deleteUpstreamSchedule(scheduleId: string): Promise<SchedulerResult<void>> {
+  return requestUpstream<void>(`/schedules/${scheduleId}`, { method: 'DELETE' })
+}
+
+/** GET /schedules/{schedule_id}/logs?skip=&limit= — newest first. */
+export async function fetchUpstreamLogs(
+  scheduleId: string,
+  params: { skip?: number; limit?: number } = {}
+): Promise<SchedulerResult<{ executions: ExecutionLog[]; total: number }>> {
+  return requestUpstream(`/schedules/${scheduleId}/logs${buildQuery({ skip: params.skip, limit: params.limit })}`)
+}
+
+/** GET /schedules/executions/recent?agent_id=&success=&hours=&days=&skip=&limit= */
+export async function fetchUpstreamRecentExecutions(
+  params: RecentExecutionParams
+): Promise<SchedulerResult<{ executions: ExecutionLog[]; total: number }>> {
+  const qs = buildQuery({
+    agent_id: params.agentId,
+    success: params.success,
+    hours: params.hours,
+    days: params.days,
+    skip: params.skip,
+    limit: params.limit,
+  })
+  return requestUpstream(`/schedules/executions/recent${qs}`)
+}
+
+/** POST /schedules/{schedule_id}/trigger — runs asynchronously, 202 on success. */
+export async function triggerUpstreamSchedule(scheduleId: string): Promise<SchedulerResult<void>> {
+  if (!LYZR_API_KEY) {
+    return { success: false, status: 500, error: 'LYZR_API_KEY not configured on server' }
+  }
+
+  try {
+    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}/trigger`, {
+      method: 'POST',
+      headers: getSchedulerHeaders(),
+    })
+    if (response.status === 202) return { success: true, status: 202 }
+    return {
+      success: false,
+      status: response.status,
+      error: `Trigger failed: ${response.status}`,
+      details: await response.text(),
+    }
+  } catch (error) {
+    return { success: false, status: 500, error: error instanceof Error ? error.message : 'Server error' }
+  }
+}
+
+export const upstreamBackend: SchedulerBackend = {
+  kind: 'upstream',
+  listSchedules: listUpstreamSchedules,
+  getSchedule: fetchUpstreamSchedule,
+  getSchedulesForAgent: fetchUpstreamSchedulesForAgent,
+  createSchedule: createUpstreamSchedule,
+  updateSchedule: updateUpstreamSchedule,
+  setScheduleActive: setUpstreamScheduleActive,
+  deleteSchedule: deleteUpstreamSchedule,
+  triggerSchedule: triggerUpstreamSchedule,
+  getLogs: fetchUpstreamLogs,
+  getRecentExecutions: fetchUpstreamRecentExecutions,
+}
@@ -0,0 +1,113 @@
+/**
+ * Server-side JSON Store
+ *
+ * Minimal file-backed persistence for API routes (watchlist, settings, ...).
+ * Each store is a single JSON file under DATA_DIR (defaults to ./.data).
+ * Writes to the same store are serialized so concurrent requests don't clobber each other.
+ *
+ * Leases are lock files next to the stores, taken with an exclusive create so
+ * they also hold across server instances and hot reloads sharing the directory.
+ *
+ * NEVER import this from client components — it uses the Node.js filesystem.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data')
+
+const writeQueues = new Map<string, Promise<unknown>>()
+
+function storePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`)
+}
+
+/** Read a store, returning `fallback` when it doesn't exist yet or can't be parsed. */
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(storePath(name), 'utf8')
+    return JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+/** Overwrite a store with `value`. */
+export async function writeStore<T>(name: string, value: T): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  const file = storePath(name)
+  const tmp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), 'utf8')
+  await fs.rename(tmp, file)
+}
+
+/**
+ * Read-modify-write a store. Updates to the same store run one at a time.
+ * Returns the value that was written.
+ */
+export async function updateStore<T>(
+  name: string,
+  fallback: T,
+  updater: (current: T) => T | Promise<T>
+): Promise<T> {
+  const previous = writeQueues.get(name) ?? Promise.resolve()
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readStore<T>(name, fallback)
+      const updated = await updater(current)
+      await writeStore(name, updated)
+      return updated
+    })
+  writeQueues.set(name, next)
+  return next
+}
+
+interface Lease {
+  holder: string
+  expires_at: number
+}
+
+function leasePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.lease`)
+}
+
+/**
+ * Take the named lease for `ttlMs`. Returns false while another holder's
+ * lease is unexpired; an expired lease is broken and taken over.
+ */
+export async function acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  const file = leasePath(name)
+  const lease: Lease = { holder, expires_at: Date.now() + ttlMs }
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      await fs.writeFile(file, JSON.stringify(lease), { encoding: 'utf8', flag: 'wx' })
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+
+    let current: Lease | null = null
+    try {
+      current = JSON.parse(await fs.readFile(file, 'utf8')) as Lease
+    } catch {
+      // Unreadable: half-written or just released — treat as expired
+    }
+    if (current && current.expires_at > Date.now()) return false
+    await fs.rm(file, { force: true })
+  }
+  return false
+}
+
+/** Give up a lease. Does nothing when `holder` no longer holds it. */
+export async function releaseLease(name: string, holder: string): Promise<void> {
+  const file = leasePath(name)
+  try {
+    const current = JSON.parse(await fs.readFile(file, 'utf8')) as Lease
+    if (current.holder === holder) await fs.rm(file, { force: true })
+  } catch {
+    // Already gone
+  }
+}
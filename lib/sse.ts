@@ -0,0 +1,79 @@
+/**
+ * Server-Sent Events
+ *
+ * Minimal SSE framing shared by the /api/agent stream (which both reads the
+ * upstream token stream and writes its own) and callAIAgentStream, which reads
+ * it in the browser.
+ */
+
+export interface SSEEvent {
+  /** Event name; 'message' when the frame has no `event:` line. */
+  event: string
+  data: string
+}
+
+/** Serialize one event. `data` is JSON-encoded unless it is already a string. */
+export function formatSSE(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data)
+  const lines = payload.split('\n').map(line => `data: ${line}`).join('\n')
+  return `event: ${event}\n${lines}\n\n`
+}
+
+/**
+ * Incremental parser: push text chunks as they arrive and `onEvent` fires for
+ * every complete frame. Call `flush` at end of stream for a trailing frame
+ * without the closing blank line.
+ */
+export function createSSEParser(onEvent: (event: SSEEvent) => void) {
+  let buffer = ''
+
+  const dispatch = (frame: string) => {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of frame.split('\n')) {
+      if (!line || line.startsWith(':')) continue
+      const colon = line.indexOf(':')
+      const field = colon === -1 ? line : line.slice(0, colon)
+      // A single space after the colon belongs to the framing, not the value
+      let value = colon === -1 ? '' : line.slice(colon + 1)
+      if (value.startsWith(' ')) value = value.slice(1)
+      if (field === 'event') event = value
+      else if (field === 'data') data.push(value)
+    }
+    if (data.length > 0) onEvent({ event, data: data.join('\n') })
+  }
+
+  return {
+    push(chunk: string) {
+      // CRLF line endings are dropped to LF; bare-CR framing isn't supported
+      buffer += chunk.replace(/\r/g, '')
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+      }
+    },
+    flush() {
+      if (buffer.trim()) dispatch(buffer)
+      buffer = ''
+    },
+  }
+}
+
+/** Read a fetch body to the end, feeding each decoded chunk to `onText`. */
+export async function readTextStream(body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      onText(decoder.decode(value, { stream: true }))
+    }
+    const rest = decoder.decode()
+    if (rest) onText(rest)
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Stock Alert Helpers
+ *
+ * Shared types and parsing/formatting helpers for the Stock Alert Agent's
+ * execution logs. Safe to import from both client components and API routes.
+ */
+
+import type { ExecutionLog } from '@/lib/scheduler'
+import { validateAgentOutput, type ResponseSchemaViolation } from '@/lib/responseSchemas'
+
+// Types
+export interface StockAlertData {
+  stock_symbol?: string
+  current_price?: number
+  daily_change_amount?: number
+  daily_change_percentage?: number
+  timestamp?: string
+  market_status?: string
+  email_sent?: boolean
+  recipient_email?: string
+  triggered_rule?: string | null
+}
+
+export interface AlertHistoryItem {
+  id: string
+  executed_at: string
+  success: boolean
+  data: StockAlertData | null
+  error_message?: string
+  /** How the parsed result deviates from the agent's response schema. Empty when it conforms. */
+  violations?: ResponseSchemaViolation[]
+  /** The source log, for the execution detail view. Absent for sample data. */
+  log?: ExecutionLog
+}
+
+/** Accessor path inside `response_output` that yielded the alert data. */
+export type ExecutionParsePath =
+  | 'direct'
+  | 'result.response.result'
+  | 'result.result'
+  | 'result'
+  | 'response.result'
+
+export interface ExecutionParseResult {
+  data: StockAlertData | null
+  /** Accessor path that matched, or null when none did. */
+  path: ExecutionParsePath | null
+  /** False when response_output wasn't valid JSON and was used as-is. */
+  json: boolean
+  /**
+   * Schema violations of the object at `path`, checked against the registered
+   * schema for the log's agent_id. A successful log with no object to check
+   * gets one `(root)` violation (expected object). Empty when it conforms, for
+   * failed logs, or when the agent has no schema.
+   */
+  violations: ResponseSchemaViolation[]
+  error?: string
+}
+
+// Parse an execution log response, reporting which accessor path matched
+export function parseExecutionDetails(log: ExecutionLog): ExecutionParseResult {
+  // A successful run should have produced an object; `value` is what was found instead
+  const rootViolations = (value: unknown) => (log.success && validateAgentOutput(log.agent_id, value)) || []
+
+  if (!log.response_output) {
+    return { data: null, path: null, json: false, violations: rootViolations(undefined), error: 'Empty response_output' }
+  }
+
+  try {
+    // Try parsing as JSON
+    let parsed: any
+    let json = true
+    try {
+      parsed = JSON.parse(log.response_output)
+    } catch {
+      // If parsing fails, response_output might already be an object
+      parsed = log.response_output
+      json = false
+    }
+
+    // Try multiple accessor paths based on agent type
+    let result = null
+    let path: ExecutionParsePath | null = null
+
+    // Path 1: Direct result (for some agent types)
+    if (parsed?.stock_symbol !== undefined) {
+      result = parsed
+      path = 'direct'
+    }
+    // Path 2: result.response.result (common for JSON agents)
+    else if (parsed?.result?.response?.result) {
+      result = parsed.result.response.result
+      path = 'result.response.result'
+    }
+    // Path 3: result.result (alternative path)
+    else if (parsed?.result?.result) {
+      result = parsed.result.result
+      path = 'result.result'
+    }
+    // Path 4: Just result (simple path)
+    else if (parsed?.result) {
+      result = parsed.result
+      path = 'result'
+    }
+    // Path 5: response.result
+    else if (parsed?.response?.result) {
+      result = parsed.response.result
+      path = 'response.result'
+    }
+
+    if (!result || typeof result !== 'object') {
+      return {
+        data: null,
+        path: null,
+        json,
+        violations: rootViolations(path ? result : undefined),
+        error: path ? `Value at ${path} is not an object` : 'No accessor path matched',
+      }
+    }
+
+    return {
+      data: {
+        stock_symbol: result.stock_symbol,
+        current_price: result.current_price,
+        daily_change_amount: result.daily_change_amount,
+        daily_change_percentage: result.daily_change_percentage,
+        timestamp: result.timestamp,
+        market_status: result.market_status,
+        email_sent: result.email_sent,
+        recipient_email: result.recipient_email,
+        triggered_rule: result.triggered_rule,
+      },
+      path,
+      json,
+      violations: validateAgentOutput(log.agent_id, result) ?? [],
+    }
+  } catch (error) {
+    console.error('Error parsing execution data:', error)
+    return { data: null, path: null, json: false, violations: [], error: error instanceof Error ? error.message : 'Parse error' }
+  }
+}
+
+// Helper function to parse execution log response
+export function parseExecutionData(log: ExecutionLog): StockAlertData | null {
+  return parseExecutionDetails(log).data
+}
+
+// Convert an execution log into a dashboard history item
+export function toAlertHistoryItem(log: ExecutionLog): AlertHistoryItem {
+  const { data: parsedData, violations } = parseExecutionDetails(log)
+  // Log for debugging
+  if (log.response_output && !parsedData) {
+    console.log('Failed to parse execution log:', log.response_output)
+  }
+  return {
+    id: log.id,
+    executed_at: log.executed_at,
+    success: log.success,
+    data: parsedData,
+    error_message: log.error_message ?? undefined,
+    violations,
+    log,
+  }
+}
+
+// Helper function to format currency
+export function formatCurrency(value: number | undefined): string {
+  if (value === undefined || value === null) return '$---.--'
+  return `$${value.toFixed(2)}`
+}
+
+// Helper function to format percentage
+export function formatPercentage(value: number | undefined): string {
+  if (value === undefined || value === null) return '--.--'
+  const sign = value >= 0 ? '+' : ''
+  return `${sign}${value.toFixed(2)}%`
+}
+
+// Helper function to format timestamp
+export function formatTimestamp(timestamp: string | undefined): string {
+  if (!timestamp) return 'Never'
+  try {
+    const date = new Date(timestamp)
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  } catch {
+    return timestamp
+  }
+}
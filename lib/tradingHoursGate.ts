@@ -0,0 +1,156 @@
+/**
+ * Trading-Hours Gate (server-side)
+ *
+ * Enforces schedule trading modes on the hosted scheduler, which only knows
+ * cron. The narrowed cron (limitCronToTradingMode) keeps a schedule off
+ * nights and weekends, but it can't express the 9:30 open, early closes or
+ * exchange holidays — so a timer pauses every schedule with a trading mode
+ * when its session closes and resumes it when the next one opens.
+ *
+ * The gate looks GATE_LEAD_MS ahead: cron fires on the minute, so a pause or
+ * resume applied in the half minute before a session boundary is in place
+ * for the first run on the other side of it.
+ *
+ * A schedule the gate paused is marked `trading_paused` in its settings. Only
+ * those are resumed, so a schedule the user paused stays paused; a user
+ * resume outside the session is deferred the same way (setScheduleActiveGated).
+ *
+ * The local engine skips out-of-session runs itself, so the gate only runs
+ * for the upstream backend, and only while this server process is up.
+ *
+ * NEVER import this from client components.
+ */
+
+import { getSchedulerBackend, SCHEDULER_BACKEND, type SchedulerResult } from '@/lib/schedulerBackend'
+import { getScheduleSettings, listScheduleSettings, saveScheduleSettings, type ScheduleSettings } from '@/lib/scheduleSettings'
+import { isWithinTradingMode, type TradingMode } from '@/lib/marketCalendar'
+import type { Schedule } from '@/lib/scheduler'
+
+const GATE_TICK_MS = Number(process.env.TRADING_GATE_TICK_MS) || 15000
+const GATE_LEAD_MS = 30 * 1000
+
+type GateState = NonNullable<ScheduleSettings['trading_gate']>
+
+// Kept on globalThis so a hot-reloaded copy of this module reuses the timer
+const gate = globalThis as typeof globalThis & { __tradingHoursGateTicker?: ReturnType<typeof setInterval> }
+
+function isGated(): boolean {
+  return SCHEDULER_BACKEND === 'upstream'
+}
+
+/** Whether the mode's session is open for a run about to fire. */
+function gateStateFor(mode: TradingMode, now: Date = new Date()): GateState {
+  return isWithinTradingMode(new Date(now.getTime() + GATE_LEAD_MS), mode) ? 'open' : 'closed'
+}
+
+/**
+ * Apply `state` to one schedule. Returns true when it paused or resumed it.
+ * The state is only recorded once it's in effect, so a failed pause or resume
+ * is retried on the next tick.
+ */
+async function applyGateState(settings: ScheduleSettings, state: GateState): Promise<boolean> {
+  const backend = getSchedulerBackend()
+  const scheduleId = settings.schedule_id
+
+  if (state === 'open') {
+    if (settings.trading_paused) {
+      const resumed = await backend.setScheduleActive(scheduleId, true)
+      if (!resumed.success && resumed.status !== 404) return false
+    }
+    await saveScheduleSettings(scheduleId, { trading_gate: 'open', trading_paused: false })
+    return !!settings.trading_paused
+  }
+
+  const current = await backend.getSchedule(scheduleId)
+  if (!current.success || !current.data) {
+    if (current.status === 404) await saveScheduleSettings(scheduleId, { trading_gate: 'closed' })
+    return false
+  }
+  if (current.data.is_active) {
+    const paused = await backend.setScheduleActive(scheduleId, false)
+    if (!paused.success) return false
+  }
+  await saveScheduleSettings(scheduleId, {
+    trading_gate: 'closed',
+    trading_paused: current.data.is_active || !!settings.trading_paused,
+  })
+  return current.data.is_active
+}
+
+async function tick() {
+  const now = new Date()
+  for (const settings of await listScheduleSettings()) {
+    const mode = settings.trading_mode ?? 'always'
+    if (mode === 'always') continue
+    const state = gateStateFor(mode, now)
+    if (settings.trading_gate === state) continue
+    try {
+      await applyGateState(settings, state)
+    } catch (error) {
+      console.error(`Trading-hours gate failed for ${settings.schedule_id}:`, error)
+    }
+  }
+}
+
+/** Start the gate's timer (idempotent, including across hot reloads). No-op for the local backend. */
+export function startTradingHoursGate() {
+  if (!isGated() || gate.__tradingHoursGateTicker) return
+  gate.__tradingHoursGateTicker = setInterval(() => {
+    tick().catch(error => console.error('Trading-hours gate tick failed:', error))
+  }, GATE_TICK_MS)
+  tick().catch(error => console.error('Trading-hours gate tick failed:', error))
+}
+
+/**
+ * Bring one schedule in line with its trading mode right away — after the
+ * mode changes, rather than at the next session boundary. Switching to
+ * `always` resumes a schedule the gate had paused. Returns true when the
+ * schedule was paused or resumed.
+ */
+export async function reconcileTradingGate(scheduleId: string): Promise<boolean> {
+  if (!isGated()) return false
+  const settings = await getScheduleSettings(scheduleId)
+  const mode = settings.trading_mode ?? 'always'
+
+  if (mode === 'always') {
+    if (settings.trading_paused) {
+      const resumed = await getSchedulerBackend().setScheduleActive(scheduleId, true)
+      if (!resumed.success) return false
+    }
+    if (settings.trading_gate !== undefined || settings.trading_paused) {
+      await saveScheduleSettings(scheduleId, { trading_gate: undefined, trading_paused: false })
+    }
+    return !!settings.trading_paused
+  }
+  return applyGateState(settings, gateStateFor(mode))
+}
+
+/**
+ * Pause or resume on the user's behalf. Resuming while the gate holds the
+ * schedule closed only marks it for the next session open (`deferred`);
+ * pausing clears that mark so the gate leaves the schedule alone.
+ */
+export async function setScheduleActiveGated(
+  scheduleId: string,
+  active: boolean
+): Promise<SchedulerResult<Schedule> & { deferred?: boolean }> {
+  const backend = getSchedulerBackend()
+  if (!isGated()) return backend.setScheduleActive(scheduleId, active)
+
+  const settings = await getScheduleSettings(scheduleId)
+  const mode = settings.trading_mode ?? 'always'
+
+  if (active && mode !== 'always' && gateStateFor(mode) === 'closed') {
+    let current = await backend.getSchedule(scheduleId)
+    if (current.success && current.data?.is_active) current = await backend.setScheduleActive(scheduleId, false)
+    if (!current.success || !current.data) return current
+    await saveScheduleSettings(scheduleId, { trading_gate: 'closed', trading_paused: true })
+    return { ...current, deferred: true }
+  }
+
+  const result = await backend.setScheduleActive(scheduleId, active)
+  if (result.success && settings.trading_paused) {
+    await saveScheduleSettings(scheduleId, { trading_paused: false })
+  }
+  return result
+}
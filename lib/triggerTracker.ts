@@ -0,0 +1,116 @@
+/**
+ * Trigger Tracker (server-side)
+ *
+ * Manual triggers are fire-and-forget (202 Accepted), so the tracker
+ * hands out a correlation token and follows the run through the schedule
+ * watcher: pending (trigger sent) → running (accepted, waiting for the
+ * execution log) → success | failed, or timeout when no execution shows up.
+ *
+ * The local engine tags the triggered run's logs with the token, so matching
+ * is exact. Hosted execution logs carry no correlation ID, so for the upstream
+ * backend matching is a heuristic: the first execution logged after the
+ * trigger is taken as its result, which may be a cron run that fired at the
+ * same time. Failed attempts that will be retried keep the trigger running
+ * until the final attempt is logged.
+ *
+ * NEVER import this from client components.
+ */
+
+import { randomUUID } from 'crypto'
+import { getSchedulerBackend, type SchedulerResult } from '@/lib/schedulerBackend'
+import { watchSchedule, whenWatchPrimed } from '@/lib/scheduleWatcher'
+import type { TrackedTrigger } from '@/lib/scheduler'
+
+const TRIGGER_TIMEOUT_MS = Number(process.env.TRIGGER_TIMEOUT_MS) || 5 * 60 * 1000
+const RETENTION_MS = 60 * 60 * 1000
+// Allow for clock skew between this server and the scheduler
+const CLOCK_SKEW_MS = 5000
+
+const triggers = new Map<string, TrackedTrigger>()
+
+function update(token: string, patch: Partial<TrackedTrigger>): TrackedTrigger {
+  const next = { ...triggers.get(token)!, ...patch, updated_at: new Date().toISOString() }
+  triggers.set(token, next)
+  return next
+}
+
+function pruneExpired() {
+  const cutoff = Date.now() - RETENTION_MS
+  for (const [token, trigger] of Array.from(triggers.entries())) {
+    if (new Date(trigger.updated_at).getTime() < cutoff) triggers.delete(token)
+  }
+}
+
+/**
+ * Trigger a schedule and start tracking the run. Resolves once the scheduler has
+ * accepted (or rejected) the trigger; follow progress with getTrackedTrigger.
+ * A rejection carries the backend's status and error, with the failed trigger
+ * as `data`.
+ */
+export async function startTrackedTrigger(scheduleId: string): Promise<SchedulerResult<TrackedTrigger>> {
+  pruneExpired()
+
+  const token = randomUUID()
+  const now = new Date().toISOString()
+  triggers.set(token, {
+    token,
+    schedule_id: scheduleId,
+    status: 'pending',
+    triggered_at: now,
+    updated_at: now,
+    attempt: null,
+    execution: null,
+    error: null,
+  })
+
+  // Subscribe before triggering so the execution can't slip past the watcher
+  let timer: ReturnType<typeof setTimeout> | null = null
+  const triggeredAt = Date.now()
+  const backend = getSchedulerBackend()
+  const unsubscribe = watchSchedule(scheduleId, (event) => {
+    if (event.type !== 'execution') return
+    const { log } = event
+    const matches = backend.kind === 'local'
+      ? log.trigger_token === token
+      : new Date(log.executed_at).getTime() >= triggeredAt - CLOCK_SKEW_MS
+    if (!matches) return
+
+    const final = log.success || log.attempt >= log.max_attempts
+    update(token, {
+      status: final ? (log.success ? 'success' : 'failed') : 'running',
+      attempt: log.attempt,
+      execution: log,
+      error: log.success ? null : log.error_message,
+    })
+    if (final) stop()
+  })
+
+  function stop() {
+    if (timer) clearTimeout(timer)
+    unsubscribe()
+  }
+
+  await whenWatchPrimed(scheduleId)
+  const result = await backend.triggerSchedule(scheduleId, token)
+  if (!result.success) {
+    stop()
+    const failed = update(token, { status: 'failed', error: result.error ?? 'Trigger failed' })
+    return { success: false, status: result.status, error: failed.error, details: result.details, data: failed }
+  }
+
+  timer = setTimeout(() => {
+    unsubscribe()
+    const current = triggers.get(token)
+    if (current && (current.status === 'pending' || current.status === 'running')) {
+      update(token, { status: 'timeout', error: 'No execution was logged for this trigger in time' })
+    }
+  }, TRIGGER_TIMEOUT_MS)
+
+  const current = triggers.get(token)!
+  return { success: true, status: 202, data: current.status === 'pending' ? update(token, { status: 'running' }) : current }
+}
+
+/** Current state of a tracked trigger, or null for unknown/expired tokens. */
+export function getTrackedTrigger(token: string): TrackedTrigger | null {
+  return triggers.get(token) ?? null
+}
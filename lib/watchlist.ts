@@ -0,0 +1,168 @@
+'use client'
+
+/**
+ * Watchlist Client Utility
+ *
+ * Client-side wrapper for the /api/watchlist route. Each watchlist entry maps a
+ * ticker symbol to its own Lyzr schedule, created through `createSchedule`.
+ */
+
+import { useState, useCallback } from 'react'
+import { createSchedule, deleteSchedule } from '@/lib/scheduler'
+
+// Types
+export interface WatchlistEntry {
+  symbol: string
+  schedule_id: string
+  agent_id: string
+  created_at: string
+}
+
+export interface WatchlistResult {
+  success: boolean
+  entries: WatchlistEntry[]
+  error?: string
+}
+
+/** Default schedule settings for a newly watched symbol. */
+export const DEFAULT_WATCH_SCHEDULE = {
+  cron_expression: '*/5 * * * *',
+  timezone: 'America/New_York',
+}
+
+/** Agent message for a symbol's schedule. */
+export function buildWatchMessage(symbol: string): string {
+  return `Fetch ${symbol} stock price and send email alert`
+}
+
+/** List all watchlist entries. */
+export async function listWatchlist(): Promise<WatchlistResult> {
+  try {
+    const res = await fetch('/api/watchlist')
+    const data = await res.json()
+    if (!data.success) return { success: false, entries: [], error: data.error }
+    return { success: true, entries: data.entries || [] }
+  } catch (error) {
+    return { success: false, entries: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Watch a new symbol: creates a dedicated schedule for it, then records the
+ * mapping. The schedule is deleted again if the mapping can't be saved.
+ */
+export async function addToWatchlist(
+  symbol: string,
+  agentId: string,
+  options?: { cron_expression?: string; timezone?: string; message?: string; max_retries?: number; retry_delay?: number }
+): Promise<WatchlistResult> {
+  const normalized = symbol.trim().toUpperCase()
+  if (!normalized) return { success: false, entries: [], error: 'Symbol is required' }
+
+  const created = await createSchedule({
+    agent_id: agentId,
+    cron_expression: options?.cron_expression ?? DEFAULT_WATCH_SCHEDULE.cron_expression,
+    timezone: options?.timezone ?? DEFAULT_WATCH_SCHEDULE.timezone,
+    message: options?.message ?? buildWatchMessage(normalized),
+    max_retries: options?.max_retries,
+    retry_delay: options?.retry_delay,
+  })
+  if (!created.success || !created.schedule) {
+    return { success: false, entries: [], error: created.error || 'Failed to create schedule' }
+  }
+
+  try {
+    const res = await fetch('/api/watchlist', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ symbol: normalized, schedule_id: created.schedule.id, agent_id: agentId }),
+    })
+    const data = await res.json()
+    if (!data.success) {
+      await deleteSchedule(created.schedule.id)
+      return { success: false, entries: [], error: data.error }
+    }
+    return { success: true, entries: data.entries || [] }
+  } catch (error) {
+    await deleteSchedule(created.schedule.id)
+    return { success: false, entries: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Stop watching a symbol. Optionally deletes its schedule as well. */
+export async function removeFromWatchlist(
+  entry: WatchlistEntry,
+  options?: { deleteSchedule?: boolean }
+): Promise<WatchlistResult> {
+  try {
+    if (options?.deleteSchedule) {
+      const deleted = await deleteSchedule(entry.schedule_id)
+      if (!deleted.success) return { success: false, entries: [], error: deleted.error }
+    }
+    const res = await fetch('/api/watchlist', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ symbol: entry.symbol }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, entries: [], error: data.error }
+    return { success: true, entries: data.entries || [] }
+  } catch (error) {
+    return { success: false, entries: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** React hook for managing the watchlist with loading/error state. */
+export function useWatchlist() {
+  const [entries, setEntries] = useState<WatchlistEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchWatchlist = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listWatchlist()
+    if (result.success) {
+      setEntries(result.entries)
+    } else {
+      setError(result.error || 'Failed to load watchlist')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
+  const add = async (symbol: string, agentId: string, options?: Parameters<typeof addToWatchlist>[2]) => {
+    setLoading(true)
+    setError(null)
+    const result = await addToWatchlist(symbol, agentId, options)
+    if (result.success) {
+      setEntries(result.entries)
+    } else {
+      setError(result.error || 'Failed to add symbol')
+    }
+    setLoading(false)
+    return result
+  }
+
+  const remove = async (entry: WatchlistEntry, options?: { deleteSchedule?: boolean }) => {
+    setLoading(true)
+    setError(null)
+    const result = await removeFromWatchlist(entry, options)
+    if (result.success) {
+      setEntries(result.entries)
+    } else {
+      setError(result.error || 'Failed to remove symbol')
+    }
+    setLoading(false)
+    return result
+  }
+
+  return {
+    entries,
+    loading,
+    error,
+    fetchWatchlist,
+    add,
+    remove,
+  }
+}